@@ -0,0 +1,430 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, BarChart3, Download, Loader2, TrendingDown, TrendingUp, X } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import { ANALYTICS_DIMENSIONS, DIMENSION_LABELS, monthOverMonth } from '@/lib/analytics'
+import { saveResponse } from '@/lib/download'
+import type { AnalyticsDimension, ArchiveSummary, ItemSearchResult, SpendingAnalytics, SpendSeries } from '@/lib/types'
+
+// Series shown in the breakdown table before "Show all"
+const TABLE_ROWS = 15
+
+function formatMoney(amount: number): string {
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number)
+  return new Date(year, m - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+interface DrillDown {
+  series: SpendSeries
+  month: string | null
+  results: ItemSearchResult[] | null
+}
+
+export default function AnalyticsPage() {
+  const [archive, setArchive] = useState<ArchiveSummary[]>([])
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [municipality, setMunicipality] = useState('')
+  // null means every archived warrant in the date range
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null)
+  const [dimension, setDimension] = useState<AnalyticsDimension>('vendor')
+  const [analytics, setAnalytics] = useState<SpendingAnalytics | null>(null)
+  const [showAll, setShowAll] = useState(false)
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams()
+    if (from) params.set('from', from)
+    if (to) params.set('to', to)
+    if (municipality) params.set('municipality', municipality)
+    if (selectedIds) params.set('warrants', Array.from(selectedIds).join(','))
+    return params
+  }, [from, to, municipality, selectedIds])
+
+  useEffect(() => {
+    fetch('/api/warrants')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setArchive(data.warrants)
+      })
+  }, [])
+
+  useEffect(() => {
+    const params = filterParams()
+    params.set('dimension', dimension)
+
+    setLoading(true)
+    setError(null)
+    setDrillDown(null)
+    fetch(`/api/analytics?${params}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setAnalytics(data.analytics)
+        } else {
+          setError(data.error || 'Could not load analytics')
+        }
+      })
+      .finally(() => setLoading(false))
+  }, [dimension, filterParams])
+
+  const openDrillDown = async (series: SpendSeries, month: string | null) => {
+    setDrillDown({ series, month, results: null })
+    const params = filterParams()
+    params.set('dimension', dimension)
+    params.set('key', series.key)
+    if (month) params.set('month', month)
+
+    const response = await fetch(`/api/analytics/items?${params}`)
+    const data = await response.json()
+    if (data.success) {
+      setDrillDown({ series, month, results: data.results })
+    } else {
+      setError(data.error || 'Could not load line items')
+    }
+  }
+
+  const municipalities = Array.from(new Set(archive.map(warrant => warrant.warrantInfo.municipality))).sort()
+  const townWarrants = municipality ? archive.filter(warrant => warrant.warrantInfo.municipality === municipality) : archive
+
+  const toggleWarrant = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev ?? townWarrants.map(warrant => warrant.id))
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next.size === townWarrants.length ? null : next
+    })
+  }
+
+  // The warrant picks are the town's own, so start over when it changes
+  const selectMunicipality = (name: string) => {
+    setMunicipality(name)
+    setSelectedIds(null)
+  }
+
+  const downloadExcel = async () => {
+    const response = await fetch(`/api/analytics/export?${filterParams()}`)
+    if (!response.ok) {
+      const data = await response.json()
+      setError(data.error || 'Export failed')
+      return
+    }
+    await saveResponse(response, `Warrant_Analytics_${new Date().toISOString().slice(0, 10)}.xlsx`)
+  }
+
+  const months = analytics?.months ?? []
+  const maxMonth = Math.max(0, ...months.map(month => analytics!.monthTotals[month]))
+  const maxSeries = Math.max(0, ...(analytics?.series ?? []).flatMap(series => Object.values(series.byMonth)))
+  const tableSeries = analytics ? (showAll ? analytics.series : analytics.series.slice(0, TABLE_ROWS)) : []
+  const [previousMonth, latestMonth] = months.slice(-2)
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-primary-400 flex items-center justify-center gap-3">
+            <BarChart3 className="w-10 h-10" />
+            Spending Analytics
+          </h1>
+          <p className="text-slate-400 mt-2">
+            Trends across archived warrants by vendor, department and account code
+          </p>
+          <AppNav />
+        </header>
+
+        {error && (
+          <div className="mb-6 bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-slate-400">
+              From
+              <input
+                type="month"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+            </label>
+            <label className="text-sm text-slate-400">
+              To
+              <input
+                type="month"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+            </label>
+            {municipalities.length > 1 && (
+              <label className="text-sm text-slate-400">
+                Municipality
+                <select
+                  value={municipality}
+                  onChange={(e) => selectMunicipality(e.target.value)}
+                  className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+                >
+                  <option value="">All</option>
+                  {municipalities.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </label>
+            )}
+            <div className="flex rounded-lg overflow-hidden border border-slate-600">
+              {ANALYTICS_DIMENSIONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setDimension(option)}
+                  className={`px-4 py-2 text-sm font-medium transition-colors ${
+                    option === dimension ? 'bg-primary-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {DIMENSION_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={downloadExcel}
+              disabled={!analytics || analytics.warrants.length === 0}
+              className="ml-auto bg-green-600 hover:bg-green-700 disabled:opacity-50 px-6 py-2 rounded-lg
+                       font-medium transition-colors flex items-center gap-2"
+            >
+              <Download className="w-5 h-5" />
+              Download Excel
+            </button>
+          </div>
+
+          {townWarrants.length > 0 && (
+            <details className="mt-4">
+              <summary className="text-sm text-slate-400 cursor-pointer">
+                Warrants ({selectedIds ? `${selectedIds.size} of ${townWarrants.length}` : `all ${townWarrants.length}`} selected)
+              </summary>
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-1 text-sm">
+                {townWarrants.map(warrant => (
+                  <label key={warrant.id} className="flex items-center gap-2 text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={!selectedIds || selectedIds.has(warrant.id)}
+                      onChange={() => toggleWarrant(warrant.id)}
+                    />
+                    {warrant.warrantInfo.municipality} #{warrant.warrantInfo.warrantNumber}
+                    <span className="text-slate-500">{warrant.warrantInfo.date}</span>
+                  </label>
+                ))}
+              </div>
+            </details>
+          )}
+        </div>
+
+        {loading && !analytics && (
+          <div className="text-center text-slate-400">
+            <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+          </div>
+        )}
+
+        {analytics && analytics.warrants.length === 0 && (
+          <p className="text-center text-slate-500">No archived warrants in this range.</p>
+        )}
+
+        {analytics && analytics.warrants.length > 0 && (
+          <>
+            {/* Monthly Totals */}
+            <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+              <div className="flex justify-between items-baseline mb-4">
+                <h2 className="text-xl font-bold text-primary-400">Spend by Month</h2>
+                <span className="text-slate-400 text-sm">
+                  {analytics.warrants.length} warrants • {formatMoney(analytics.total)}
+                </span>
+              </div>
+              <div className="flex items-end gap-2 h-48">
+                {months.map(month => {
+                  const amount = analytics.monthTotals[month]
+                  const change = monthOverMonth(analytics.monthTotals, months, month)
+                  return (
+                    <div key={month} className="flex-1 flex flex-col items-center justify-end h-full min-w-0" title={formatMoney(amount)}>
+                      <span className="text-xs text-slate-400 font-mono mb-1">
+                        {change === null ? '' : `${change > 0 ? '+' : ''}${(change * 100).toFixed(0)}%`}
+                      </span>
+                      <div
+                        className="w-full bg-primary-500/70 rounded-t"
+                        style={{ height: maxMonth ? `${(amount / maxMonth) * 100}%` : 0 }}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="flex gap-2 mt-2">
+                {months.map(month => (
+                  <span key={month} className="flex-1 text-center text-xs text-slate-500 min-w-0 truncate">{formatMonth(month)}</span>
+                ))}
+              </div>
+            </div>
+
+            {/* Top Movers */}
+            {analytics.movers.length > 0 && (
+              <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+                <h2 className="text-xl font-bold text-primary-400 mb-4">
+                  Top Movers
+                  <span className="text-sm text-slate-400 font-normal ml-2">
+                    {formatMonth(previousMonth)} → {formatMonth(latestMonth)}
+                  </span>
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {analytics.movers.map(series => (
+                    <button
+                      key={series.key}
+                      onClick={() => openDrillDown(series, latestMonth)}
+                      className="flex items-center justify-between gap-3 bg-slate-700/50 hover:bg-slate-700 rounded-lg px-4 py-2 text-left"
+                    >
+                      <span className="truncate">{series.label}</span>
+                      <span className={`flex items-center gap-1 font-mono text-sm ${series.change > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+                        {series.change > 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                        {series.change > 0 ? '+' : ''}{formatMoney(series.change)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Breakdown */}
+            <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+              <h2 className="text-xl font-bold text-primary-400 mb-4">
+                Spend by {DIMENSION_LABELS[dimension]}
+              </h2>
+              <p className="text-slate-500 text-sm mb-4">Select a name or a month to see the line items behind it.</p>
+              <div className="overflow-x-auto rounded-lg border border-slate-700">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-primary-400">{DIMENSION_LABELS[dimension]}</th>
+                      {months.map(month => (
+                        <th key={month} className="px-2 py-3 text-center text-primary-400 whitespace-nowrap">{formatMonth(month)}</th>
+                      ))}
+                      <th className="px-4 py-3 text-right text-primary-400">Total</th>
+                      <th className="px-4 py-3 text-right text-primary-400">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tableSeries.map(series => (
+                      <tr key={series.key} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                        <td className="px-4 py-2">
+                          <button onClick={() => openDrillDown(series, null)} className="text-left hover:text-primary-400">
+                            {series.label}
+                          </button>
+                        </td>
+                        {months.map(month => {
+                          const amount = series.byMonth[month] || 0
+                          return (
+                            <td key={month} className="px-2 py-2">
+                              <button
+                                onClick={() => openDrillDown(series, month)}
+                                disabled={!amount}
+                                title={formatMoney(amount)}
+                                className="w-full h-6 flex items-end disabled:cursor-default"
+                              >
+                                <span
+                                  className="w-full bg-primary-500/60 hover:bg-primary-400 rounded-sm"
+                                  style={{ height: maxSeries ? `${Math.max(amount ? 8 : 0, (amount / maxSeries) * 100)}%` : 0 }}
+                                />
+                              </button>
+                            </td>
+                          )
+                        })}
+                        <td className="px-4 py-2 text-right font-mono">{formatMoney(series.total)}</td>
+                        <td className={`px-4 py-2 text-right font-mono ${series.change > 0 ? 'text-amber-400' : series.change < 0 ? 'text-green-400' : 'text-slate-500'}`}>
+                          {series.change > 0 ? '+' : ''}{formatMoney(series.change)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {analytics.series.length > TABLE_ROWS && (
+                <button onClick={() => setShowAll(prev => !prev)} className="mt-3 text-sm text-primary-400 hover:underline">
+                  {showAll ? `Show top ${TABLE_ROWS}` : `Show all ${analytics.series.length}`}
+                </button>
+              )}
+            </div>
+
+            {/* Drill-down */}
+            {drillDown && (
+              <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
+                <div className="flex justify-between items-start mb-4">
+                  <h2 className="text-xl font-bold text-primary-400">
+                    {drillDown.series.label}
+                    <span className="text-sm text-slate-400 font-normal ml-2">
+                      {drillDown.month ? formatMonth(drillDown.month) : 'All months'}
+                    </span>
+                  </h2>
+                  <button onClick={() => setDrillDown(null)} title="Close" className="text-slate-400 hover:text-slate-200">
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+                {drillDown.results === null ? (
+                  <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+                ) : (
+                  <div className="overflow-x-auto rounded-lg border border-slate-700">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-700">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-primary-400">Warrant</th>
+                          <th className="px-4 py-3 text-left text-primary-400">Vendor</th>
+                          <th className="px-4 py-3 text-left text-primary-400">Check #</th>
+                          <th className="px-4 py-3 text-left text-primary-400">Description</th>
+                          <th className="px-4 py-3 text-left text-primary-400">Account</th>
+                          <th className="px-4 py-3 text-right text-primary-400">Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {drillDown.results.map(({ warrantId, warrantInfo, index, item }) => (
+                          <tr key={`${warrantId}-${index}`} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                            <td className="px-4 py-2">
+                              <Link href={`/?warrant=${warrantId}`} className="text-primary-400 hover:underline">
+                                {warrantInfo.municipality} #{warrantInfo.warrantNumber}
+                              </Link>
+                              <div className="text-slate-500 text-xs">{warrantInfo.date}</div>
+                            </td>
+                            <td className="px-4 py-2">{item.vendorName}</td>
+                            <td className="px-4 py-2 font-mono">{item.check}</td>
+                            <td className="px-4 py-2 text-slate-400">{item.description}</td>
+                            <td className="px-4 py-2 font-mono text-slate-400">{item.account}</td>
+                            <td className="px-4 py-2 text-right font-mono">{formatMoney(item.amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot className="bg-slate-700/50 font-bold">
+                        <tr>
+                          <td colSpan={5} className="px-4 py-2 text-right">TOTAL:</td>
+                          <td className="px-4 py-2 text-right font-mono">
+                            {formatMoney(drillDown.results.reduce((sum, { item }) => sum + item.amount, 0))}
+                          </td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { defaultAccountStructure, formatAccountStructure, parseAccountStructure } from '@/lib/accountCodes'
+import { deleteAccountStructure, getAccountStructure, saveAccountStructure } from '@/lib/store/accountStructures'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { municipality: string }
+}
+
+// The structure used for this municipality's codes; custom is false when
+// it's the default
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const municipality = decodeURIComponent(params.municipality)
+    const custom = await getAccountStructure(municipality)
+    const layouts = custom ? custom.layouts : defaultAccountStructure()
+    return NextResponse.json({ success: true, municipality, custom: !!custom, layouts, structure: formatAccountStructure(layouts) })
+  } catch (error) {
+    console.error('Account structure read error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read account code structure',
+    }, { status: 500 })
+  }
+}
+
+// Body: { structure: "E department:2-division:2-object:2; G fund:2-4-2" }
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const municipality = decodeURIComponent(params.municipality)
+    const { structure } = await request.json()
+    if (typeof structure !== 'string' || !structure.trim()) {
+      return NextResponse.json({ success: false, error: 'No account code structure provided' }, { status: 400 })
+    }
+
+    let layouts
+    try {
+      layouts = parseAccountStructure(structure)
+    } catch (parseError) {
+      return NextResponse.json({
+        success: false,
+        error: parseError instanceof Error ? parseError.message : 'Invalid account code structure',
+      }, { status: 400 })
+    }
+
+    const saved = await saveAccountStructure(municipality, layouts)
+    return NextResponse.json({ success: true, municipality, custom: true, layouts: saved.layouts, structure: formatAccountStructure(saved.layouts) })
+  } catch (error) {
+    console.error('Account structure save error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save account code structure',
+    }, { status: 500 })
+  }
+}
+
+// Goes back to the default structure
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = await deleteAccountStructure(decodeURIComponent(params.municipality))
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'This municipality uses the default account code structure' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Account structure delete error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reset account code structure',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { DEFAULT_ACCOUNT_STRUCTURE, defaultAccountStructure, formatAccountStructure } from '@/lib/accountCodes'
+import { listAccountStructures } from '@/lib/store/accountStructures'
+
+export const dynamic = 'force-dynamic'
+
+// Municipalities with their own account code structure, and the default
+// used for the rest
+export async function GET() {
+  try {
+    const structures = await listAccountStructures()
+    let defaultStructure = DEFAULT_ACCOUNT_STRUCTURE
+    try {
+      defaultStructure = formatAccountStructure(defaultAccountStructure())
+    } catch (envError) {
+      console.error('ACCOUNT_STRUCTURE is invalid:', envError)
+    }
+    return NextResponse.json({
+      success: true,
+      structures: structures.map(structure => ({ ...structure, structure: formatAccountStructure(structure.layouts) })),
+      defaultStructure,
+    })
+  } catch (error) {
+    console.error('Account structure list error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list account code structures',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { filterWarrants, parseAnalyticsFilter } from '@/lib/analytics'
+import { buildAnalyticsWorkbook } from '@/lib/export/analytics'
+import { writeWorkbook } from '@/lib/export/workbook'
+import { loadAll } from '@/lib/store/archive'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/analytics/export?from=YYYY-MM&to=YYYY-MM&municipality=&warrants=id,id
+export async function GET(request: NextRequest) {
+  try {
+    const warrants = filterWarrants(await loadAll(), parseAnalyticsFilter(request.nextUrl.searchParams))
+    if (warrants.length === 0) {
+      return NextResponse.json({ success: false, error: 'No archived warrants in range' }, { status: 400 })
+    }
+
+    const buffer = writeWorkbook(buildAnalyticsWorkbook(warrants))
+    const filename = `Warrant_Analytics_${new Date().toISOString().slice(0, 10)}.xlsx`
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Analytics export error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export analytics',
+    }, { status: 500 })
+  }
+}
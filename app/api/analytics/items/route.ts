@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analyticsItems, filterWarrants, parseAnalyticsFilter, parseDimension } from '@/lib/analytics'
+import { loadAll } from '@/lib/store/archive'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/analytics/items?dimension=&key=&month=YYYY-MM plus the dashboard's filters
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const key = params.get('key')
+    if (key === null) {
+      return NextResponse.json({ success: false, error: 'No key provided' }, { status: 400 })
+    }
+
+    const warrants = filterWarrants(await loadAll(), parseAnalyticsFilter(params))
+    const results = analyticsItems(warrants, parseDimension(params.get('dimension')), key, params.get('month') || undefined)
+    return NextResponse.json({ success: true, results })
+  } catch (error) {
+    console.error('Analytics drill-down error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load line items',
+    }, { status: 500 })
+  }
+}
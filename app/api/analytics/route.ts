@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildAnalytics, filterWarrants, parseAnalyticsFilter, parseDimension } from '@/lib/analytics'
+import { loadAll } from '@/lib/store/archive'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/analytics?dimension=vendor|department|account&from=YYYY-MM&to=YYYY-MM&municipality=&warrants=id,id
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const warrants = filterWarrants(await loadAll(), parseAnalyticsFilter(params))
+    const analytics = buildAnalytics(warrants, parseDimension(params.get('dimension')))
+    return NextResponse.json({ success: true, analytics })
+  } catch (error) {
+    console.error('Analytics error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build analytics',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteBudget, getBudget } from '@/lib/store/budgets'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const budget = await getBudget(params.id)
+    if (!budget) {
+      return NextResponse.json({ success: false, error: 'Budget not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, budget })
+  } catch (error) {
+    console.error('Budget read error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read budget',
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = await deleteBudget(params.id)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Budget not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Budget delete error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete budget',
+    }, { status: 500 })
+  }
+}
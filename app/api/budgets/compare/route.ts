@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { budgetThreshold } from '@/lib/budget'
+import { compareWithBudget } from '@/lib/store/budgets'
+import type { WarrantInfo, WarrantItem } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+interface CompareRequest {
+  items: WarrantItem[]
+  warrantInfo: WarrantInfo
+  // The warrant's own archive entry, so it isn't counted twice year-to-date
+  archiveId?: string
+  threshold?: number
+}
+
+// comparison is null when no budget was imported for the warrant's
+// municipality and fiscal year
+export async function POST(request: NextRequest) {
+  try {
+    const { items, warrantInfo, archiveId, threshold }: CompareRequest = await request.json()
+    const comparison = await compareWithBudget(items, warrantInfo, archiveId, threshold ?? budgetThreshold())
+    return NextResponse.json({ success: true, comparison })
+  } catch (error) {
+    console.error('Budget comparison error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare with budget',
+    }, { status: 500 })
+  }
+}
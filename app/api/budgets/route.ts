@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseBudgetFile } from '@/lib/import/budget'
+import { listBudgets, saveBudget } from '@/lib/store/budgets'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const budgets = await listBudgets()
+    return NextResponse.json({ success: true, budgets })
+  } catch (error) {
+    console.error('Budget list error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list budgets',
+    }, { status: 500 })
+  }
+}
+
+// Multipart upload: file (CSV or XLSX), municipality and fiscalYear
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const municipality = ((formData.get('municipality') as string | null) || '').trim()
+    const fiscalYear = parseInt((formData.get('fiscalYear') as string | null) || '')
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 })
+    }
+    if (!municipality) {
+      return NextResponse.json({ success: false, error: 'No municipality provided' }, { status: 400 })
+    }
+    if (isNaN(fiscalYear) || fiscalYear < 1900 || fiscalYear > 2999) {
+      return NextResponse.json({ success: false, error: 'Fiscal year must be a four-digit year' }, { status: 400 })
+    }
+
+    let accounts
+    try {
+      accounts = parseBudgetFile(await file.arrayBuffer())
+    } catch (parseError) {
+      return NextResponse.json({
+        success: false,
+        error: parseError instanceof Error ? parseError.message : 'Could not read the budget',
+      }, { status: 400 })
+    }
+
+    const budget = await saveBudget(municipality, fiscalYear, file.name, accounts)
+    return NextResponse.json({ success: true, id: budget.id, accountCount: budget.accounts.length })
+  } catch (error) {
+    console.error('Budget import error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import budget',
+    }, { status: 500 })
+  }
+}
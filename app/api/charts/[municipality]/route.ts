@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteChart, getChart } from '@/lib/store/charts'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { municipality: string }
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const chart = await getChart(decodeURIComponent(params.municipality))
+    if (!chart) {
+      return NextResponse.json({ success: false, error: 'No chart of accounts for this municipality' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, chart })
+  } catch (error) {
+    console.error('Chart read error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read chart of accounts',
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = await deleteChart(decodeURIComponent(params.municipality))
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'No chart of accounts for this municipality' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Chart delete error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete chart of accounts',
+    }, { status: 500 })
+  }
+}
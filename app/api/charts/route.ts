@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseChartFile } from '@/lib/import/chartOfAccounts'
+import { listCharts, saveChart } from '@/lib/store/charts'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const charts = await listCharts()
+    return NextResponse.json({ success: true, charts })
+  } catch (error) {
+    console.error('Chart list error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list charts of accounts',
+    }, { status: 500 })
+  }
+}
+
+// Multipart upload: file (CSV or XLSX) and municipality
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const municipality = ((formData.get('municipality') as string | null) || '').trim()
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 })
+    }
+    if (!municipality) {
+      return NextResponse.json({ success: false, error: 'No municipality provided' }, { status: 400 })
+    }
+
+    let accounts
+    try {
+      accounts = parseChartFile(await file.arrayBuffer())
+    } catch (parseError) {
+      return NextResponse.json({
+        success: false,
+        error: parseError instanceof Error ? parseError.message : 'Could not read the chart of accounts',
+      }, { status: 400 })
+    }
+
+    const chart = await saveChart(municipality, file.name, accounts)
+    return NextResponse.json({ success: true, municipality: chart.municipality, accountCount: chart.accounts.length })
+  } catch (error) {
+    console.error('Chart import error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import chart of accounts',
+    }, { status: 500 })
+  }
+}
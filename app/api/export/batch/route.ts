@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildBatchWorkbook, writeWorkbook } from '@/lib/export/workbook'
+import type { WarrantExport } from '@/lib/export/workbook'
+import { reviewOptions, reviewWarrant } from '@/lib/review'
+import { getAccountLayouts } from '@/lib/store/accountStructures'
+import { loadAll } from '@/lib/store/archive'
+import { getChart } from '@/lib/store/charts'
+import { getVendorMaster } from '@/lib/store/vendors'
+
+interface BatchExportRequest {
+  warrants: WarrantExport[]
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { warrants }: BatchExportRequest = await request.json()
+
+    if (!warrants || warrants.length === 0) {
+      return NextResponse.json({ success: false, error: 'No warrants to export' }, { status: 400 })
+    }
+
+    // Each warrant is reviewed against the archive, which also holds the
+    // rest of the batch since every parse is archived
+    const archive = await loadAll()
+    const options = reviewOptions()
+    const reviewed = await Promise.all(warrants.map(async warrant => ({
+      ...warrant,
+      reviewFlags: reviewWarrant(
+        warrant.data,
+        warrant.warrantInfo,
+        archive.filter(entry => entry.id !== warrant.archiveId),
+        options,
+      ),
+      chart: await getChart(warrant.warrantInfo.municipality),
+      vendors: await getVendorMaster(warrant.warrantInfo.municipality),
+      accountLayouts: await getAccountLayouts(warrant.warrantInfo.municipality),
+    })))
+
+    const buffer = writeWorkbook(buildBatchWorkbook(reviewed))
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="Warrant_Batch_${new Date().toISOString().slice(0, 10)}.xlsx"`,
+      },
+    })
+
+  } catch (error) {
+    console.error('Batch export error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildForm1099Report, parseForm1099Options } from '@/lib/form1099'
+import { buildForm1099Workbook } from '@/lib/export/form1099'
+import { writeWorkbook } from '@/lib/export/workbook'
+import { loadAll } from '@/lib/store/archive'
+import { getCharts } from '@/lib/store/charts'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/form1099/export with the same parameters as /api/form1099
+export async function GET(request: NextRequest) {
+  try {
+    const warrants = await loadAll()
+    const charts = await getCharts(warrants.map(warrant => warrant.warrantInfo.municipality))
+    const report = buildForm1099Report(warrants, charts, parseForm1099Options(request.nextUrl.searchParams))
+    if (report.warrants.length === 0) {
+      return NextResponse.json({ success: false, error: `No archived warrants dated in ${report.year}` }, { status: 400 })
+    }
+
+    const buffer = writeWorkbook(buildForm1099Workbook(report))
+    const filename = `1099_Worksheet_${report.year}.xlsx`
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('1099 export error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export 1099 worksheet',
+    }, { status: 500 })
+  }
+}
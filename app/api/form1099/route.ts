@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildForm1099Report, parseForm1099Options } from '@/lib/form1099'
+import { loadAll } from '@/lib/store/archive'
+import { getCharts } from '@/lib/store/charts'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/form1099?year=YYYY&threshold=600&municipality=&exclude=eft
+export async function GET(request: NextRequest) {
+  try {
+    const warrants = await loadAll()
+    const charts = await getCharts(warrants.map(warrant => warrant.warrantInfo.municipality))
+    const report = buildForm1099Report(warrants, charts, parseForm1099Options(request.nextUrl.searchParams))
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    console.error('1099 report error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build 1099 report',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getParseJob, getParseJobResult } from '@/lib/jobs'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// The finished job's result, in the same shape /api/parse responds with
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const job = getParseJob(params.id)
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Parse job not found' }, { status: 404 })
+  }
+
+  const result = getParseJobResult(params.id)
+  if (!result) {
+    const error = job.status === 'running' ? 'Parse job is still running' : job.error || `Parse job was ${job.status}`
+    return NextResponse.json({ success: false, error, job }, { status: 409 })
+  }
+  return NextResponse.json(result)
+}
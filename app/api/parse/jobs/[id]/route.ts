@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelParseJob, getParseJob } from '@/lib/jobs'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Status and progress of a parse job
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const job = getParseJob(params.id)
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Parse job not found' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, job })
+}
+
+// Cancels a running job
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  if (!cancelParseJob(params.id)) {
+    return NextResponse.json({ success: false, error: 'Parse job not found' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, job: getParseJob(params.id) })
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseJobsEnabled, startParseJob } from '@/lib/jobs'
+import { getWarrantFormat } from '@/lib/parser'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+// Starts a background parse and returns its job id; poll
+// /api/parse/jobs/<id> for progress. Where jobs can't run, answers 501 so
+// the caller parses through /api/parse instead.
+export async function POST(request: NextRequest) {
+  try {
+    if (!parseJobsEnabled()) {
+      return NextResponse.json({
+        success: false,
+        jobsUnavailable: true,
+        error: 'Parse jobs need a long-running server; use /api/parse',
+      }, { status: 501 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const formatId = (formData.get('format') as string | null) || undefined
+    // force=true skips the result cache for this upload
+    const force = formData.get('force') === 'true'
+    // replaceArchived=true overwrites an archived entry for the same PDF,
+    // edits included; otherwise that entry is kept
+    const replaceArchived = formData.get('replaceArchived') === 'true'
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 })
+    }
+
+    if (formatId && !getWarrantFormat(formatId)) {
+      return NextResponse.json({ success: false, error: `Unknown warrant format "${formatId}"` }, { status: 400 })
+    }
+
+    const job = startParseJob(await file.arrayBuffer(), file.name, { formatId, force, replaceArchived })
+    return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 })
+  } catch (error) {
+    console.error('Parse job error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start parse',
+    }, { status: 500 })
+  }
+}
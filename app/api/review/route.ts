@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviewOptions, reviewWarrant } from '@/lib/review'
+import { loadAll } from '@/lib/store/archive'
+import type { WarrantInfo, WarrantItem } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+interface ReviewRequest {
+  items: WarrantItem[]
+  warrantInfo: WarrantInfo
+  // The warrant's own archive entry, left out of the history it is checked against
+  archiveId?: string
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { items, warrantInfo, archiveId }: ReviewRequest = await request.json()
+    const history = (await loadAll()).filter(warrant => warrant.id !== archiveId)
+    const flags = reviewWarrant(items, warrantInfo, history, reviewOptions())
+    return NextResponse.json({ success: true, flags })
+  } catch (error) {
+    console.error('Review error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to review warrant',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getVendorMaster, saveVendorMaster } from '@/lib/store/vendors'
+import { mergeVendors, renameVendor } from '@/lib/vendors'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { municipality: string }
+}
+
+// One change per request: rename a vendor, or merge other vendors into it
+interface UpdateRequest {
+  rename?: { code: string, name: string }
+  merge?: { into: string, codes: string[] }
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const master = await getVendorMaster(decodeURIComponent(params.municipality))
+    if (!master) {
+      return NextResponse.json({ success: false, error: 'No vendor master for this municipality' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, master })
+  } catch (error) {
+    console.error('Vendor master read error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read vendor master',
+    }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const master = await getVendorMaster(decodeURIComponent(params.municipality))
+    if (!master) {
+      return NextResponse.json({ success: false, error: 'No vendor master for this municipality' }, { status: 404 })
+    }
+
+    const { rename, merge }: UpdateRequest = await request.json()
+    const known = (code: string) => master.vendors.some(vendor => vendor.code === code)
+    let updated
+    if (rename) {
+      if (!known(rename.code)) {
+        return NextResponse.json({ success: false, error: `Unknown vendor code ${rename.code}` }, { status: 400 })
+      }
+      if (!rename.name?.trim()) {
+        return NextResponse.json({ success: false, error: 'Enter a vendor name' }, { status: 400 })
+      }
+      updated = renameVendor(master, rename.code, rename.name)
+    } else if (merge) {
+      const unknown = [merge.into, ...merge.codes].filter(code => !known(code))
+      if (unknown.length > 0) {
+        return NextResponse.json({ success: false, error: `Unknown vendor code ${unknown.join(', ')}` }, { status: 400 })
+      }
+      if (merge.codes.filter(code => code !== merge.into).length === 0) {
+        return NextResponse.json({ success: false, error: 'Select at least one other vendor to merge' }, { status: 400 })
+      }
+      updated = mergeVendors(master, merge.into, merge.codes)
+    } else {
+      return NextResponse.json({ success: false, error: 'Expected a rename or merge' }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, master: await saveVendorMaster(updated) })
+  } catch (error) {
+    console.error('Vendor master update error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update vendor master',
+    }, { status: 500 })
+  }
+}
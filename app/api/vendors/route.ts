@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { listVendorMasters } from '@/lib/store/vendors'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, masters: await listVendorMasters() })
+  } catch (error) {
+    console.error('Vendor list error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list vendor masters',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { splitAccounts } from '@/lib/accountCodes'
+import { getAccountLayouts } from '@/lib/store/accountStructures'
+import { deleteWarrant, getWarrant, saveWarrant } from '@/lib/store/archive'
+import { learnFromWarrant } from '@/lib/store/vendors'
+import type { Correction, WarrantInfo, WarrantItem } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+interface UpdateRequest {
+  items: WarrantItem[]
+  warrantInfo: WarrantInfo
+  corrections: Correction[]
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const warrant = await getWarrant(params.id)
+    if (!warrant) {
+      return NextResponse.json({ success: false, error: 'Warrant not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, warrant })
+  } catch (error) {
+    console.error('Archive read error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read warrant',
+    }, { status: 500 })
+  }
+}
+
+// Stores corrections made in the results grid over the archived parse, with
+// edited account codes split again, and the vendor names on it once the
+// header is confirmed
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const warrant = await getWarrant(params.id)
+    if (!warrant) {
+      return NextResponse.json({ success: false, error: 'Warrant not found' }, { status: 404 })
+    }
+
+    const { items: edited, warrantInfo, corrections }: UpdateRequest = await request.json()
+    const items = splitAccounts(edited, await getAccountLayouts(warrantInfo.municipality))
+    const saved = await saveWarrant({
+      ...warrant,
+      items,
+      warrantInfo,
+      corrections,
+      total: items.reduce((sum, item) => sum + item.amount, 0),
+    })
+
+    // A confirmed warrant teaches the vendor master its names; failing to
+    // learn shouldn't fail the save
+    if (warrantInfo.confirmed) {
+      try {
+        await learnFromWarrant(warrantInfo.municipality, saved.id, items)
+      } catch (learnError) {
+        console.error('Vendor master update failed:', learnError)
+      }
+    }
+
+    return NextResponse.json({ success: true, warrant: saved })
+  } catch (error) {
+    console.error('Archive update error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update warrant',
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!await deleteWarrant(params.id)) {
+      return NextResponse.json({ success: false, error: 'Warrant not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Archive delete error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete warrant',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { listWarrants } from '@/lib/store/archive'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const warrants = await listWarrants()
+    return NextResponse.json({ success: true, warrants })
+  } catch (error) {
+    console.error('Archive list error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list warrants',
+    }, { status: 500 })
+  }
+}
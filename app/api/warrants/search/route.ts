@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { searchItems } from '@/lib/store/archive'
+import type { ItemSearchCriteria } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/warrants/search?vendor=&account=&check=&department=&minAmount=&maxAmount=
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const amount = (name: string) => {
+      const value = params.get(name)
+      return value ? parseFloat(value) : undefined
+    }
+
+    const criteria: ItemSearchCriteria = {
+      vendor: params.get('vendor') || undefined,
+      account: params.get('account') || undefined,
+      check: params.get('check') || undefined,
+      department: params.get('department') || undefined,
+      minAmount: amount('minAmount'),
+      maxAmount: amount('maxAmount'),
+    }
+
+    const results = await searchItems(criteria)
+    return NextResponse.json({ success: true, results })
+  } catch (error) {
+    console.error('Archive search error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to search warrants',
+    }, { status: 500 })
+  }
+}
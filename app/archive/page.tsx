@@ -0,0 +1,272 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Archive, Download, FolderOpen, Loader2, Search, Trash2, AlertCircle } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import { saveResponse } from '@/lib/download'
+import { exportFilename, getExportFormat } from '@/lib/export/formats'
+import type { ArchivedWarrant, ArchiveSummary, ItemSearchResult } from '@/lib/types'
+
+const EMPTY_SEARCH = { vendor: '', account: '', check: '', department: '', minAmount: '', maxAmount: '' }
+
+const SEARCH_FIELDS: { name: keyof typeof EMPTY_SEARCH, label: string, placeholder: string }[] = [
+  { name: 'vendor', label: 'Vendor', placeholder: 'Name or code' },
+  { name: 'account', label: 'Account', placeholder: 'E 10-13-25' },
+  { name: 'check', label: 'Check #', placeholder: '24567' },
+  { name: 'department', label: 'Department', placeholder: 'ADMIN' },
+  { name: 'minAmount', label: 'Min Amount', placeholder: '0.00' },
+  { name: 'maxAmount', label: 'Max Amount', placeholder: '0.00' },
+]
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`
+}
+
+export default function ArchivePage() {
+  const [warrants, setWarrants] = useState<ArchiveSummary[] | null>(null)
+  const [search, setSearch] = useState(EMPTY_SEARCH)
+  const [results, setResults] = useState<ItemSearchResult[] | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadWarrants = async () => {
+    const response = await fetch('/api/warrants')
+    const data = await response.json()
+    if (data.success) {
+      setWarrants(data.warrants)
+    } else {
+      setError(data.error || 'Could not load the archive')
+    }
+  }
+
+  useEffect(() => {
+    loadWarrants()
+  }, [])
+
+  const runSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const params = new URLSearchParams()
+    Object.entries(search).forEach(([name, value]) => {
+      if (value.trim()) params.set(name, value.trim())
+    })
+    if (!params.toString()) {
+      setResults(null)
+      return
+    }
+
+    setSearching(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/warrants/search?${params}`)
+      const data = await response.json()
+      if (data.success) {
+        setResults(data.results)
+      } else {
+        setError(data.error || 'Search failed')
+      }
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const downloadExcel = async (id: string) => {
+    const response = await fetch(`/api/warrants/${id}`)
+    const data = await response.json()
+    if (!data.success) {
+      setError(data.error || 'Could not load warrant')
+      return
+    }
+
+    const warrant: ArchivedWarrant = data.warrant
+    const exportResponse = await fetch('/api/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        data: warrant.items,
+        warrantInfo: warrant.warrantInfo,
+        total: warrant.total,
+        corrections: warrant.corrections,
+        archiveId: warrant.id,
+      }),
+    })
+
+    await saveResponse(exportResponse, exportFilename(warrant.warrantInfo, getExportFormat('xlsx')!))
+  }
+
+  const removeWarrant = async (summary: ArchiveSummary) => {
+    if (!window.confirm(`Delete ${summary.warrantInfo.municipality} warrant #${summary.warrantInfo.warrantNumber} from the archive?`)) {
+      return
+    }
+    const response = await fetch(`/api/warrants/${summary.id}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (data.success) {
+      setWarrants(prev => prev && prev.filter(warrant => warrant.id !== summary.id))
+      setResults(prev => prev && prev.filter(result => result.warrantId !== summary.id))
+    } else {
+      setError(data.error || 'Could not delete warrant')
+    }
+  }
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-primary-400 flex items-center justify-center gap-3">
+            <Archive className="w-10 h-10" />
+            Warrant Archive
+          </h1>
+          <p className="text-slate-400 mt-2">
+            Reopen, search and re-export previously parsed warrants
+          </p>
+          <AppNav />
+        </header>
+
+        {error && (
+          <div className="mb-6 bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Search */}
+        <form onSubmit={runSearch} className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-4">Search Line Items</h2>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {SEARCH_FIELDS.map(field => (
+              <label key={field.name} className="text-sm text-slate-400">
+                {field.label}
+                <input
+                  value={search[field.name]}
+                  onChange={(e) => setSearch(prev => ({ ...prev, [field.name]: e.target.value }))}
+                  placeholder={field.placeholder}
+                  inputMode={field.name.endsWith('Amount') ? 'decimal' : undefined}
+                  className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="mt-4 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setSearch(EMPTY_SEARCH)
+                setResults(null)
+              }}
+              className="bg-slate-700 hover:bg-slate-600 px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              disabled={searching}
+              className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 px-6 py-2 rounded-lg
+                       font-medium transition-colors flex items-center gap-2"
+            >
+              {searching ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
+              Search
+            </button>
+          </div>
+
+          {results && (
+            <div className="mt-6 overflow-x-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Warrant</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Vendor</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Check #</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Description</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Account</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Department</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-slate-500">No matching line items</td>
+                    </tr>
+                  )}
+                  {results.map(({ warrantId, warrantInfo, index, item }) => (
+                    <tr key={`${warrantId}-${index}`} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="px-4 py-3">
+                        <Link href={`/?warrant=${warrantId}`} className="text-primary-400 hover:underline">
+                          {warrantInfo.municipality} #{warrantInfo.warrantNumber}
+                        </Link>
+                        <div className="text-slate-500 text-xs">{warrantInfo.date}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {item.vendorName}
+                        <div className="text-slate-500 text-xs font-mono">{item.vendorCode}</div>
+                      </td>
+                      <td className="px-4 py-3 font-mono">{item.check}</td>
+                      <td className="px-4 py-3 text-slate-400">{item.description}</td>
+                      <td className="px-4 py-3 font-mono text-slate-400">{item.account}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{item.deptCategory}</td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMoney(item.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </form>
+
+        {/* Saved Warrants */}
+        <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-4">Saved Warrants</h2>
+          {warrants === null ? (
+            <div className="text-center text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+            </div>
+          ) : warrants.length === 0 ? (
+            <p className="text-slate-500">No warrants have been parsed yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Municipality</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Warrant #</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Date</th>
+                    <th className="px-4 py-3 text-left text-primary-400">File</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Items</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Total</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Saved</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {warrants.map(warrant => (
+                    <tr key={warrant.id} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="px-4 py-3">{warrant.warrantInfo.municipality}</td>
+                      <td className="px-4 py-3 font-mono">{warrant.warrantInfo.warrantNumber}</td>
+                      <td className="px-4 py-3">{warrant.warrantInfo.date}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{warrant.fileName}</td>
+                      <td className="px-4 py-3 text-right font-mono">{warrant.itemCount}</td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMoney(warrant.total)}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{new Date(warrant.savedAt).toLocaleString('en-US')}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-slate-400">
+                        <Link href={`/?warrant=${warrant.id}`} title="Open" className="inline-block p-1 hover:text-primary-400">
+                          <FolderOpen className="w-4 h-4" />
+                        </Link>
+                        <button onClick={() => downloadExcel(warrant.id)} title="Download Excel" className="p-1 hover:text-green-400">
+                          <Download className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => removeWarrant(warrant)} title="Delete" className="p-1 hover:text-red-400">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
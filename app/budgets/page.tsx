@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, CheckCircle2, Loader2, PiggyBank, Trash2, Upload } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import { fiscalYearOf } from '@/lib/warrantDate'
+import type { ArchiveSummary, BudgetSummary } from '@/lib/types'
+
+export default function BudgetsPage() {
+  const [budgets, setBudgets] = useState<BudgetSummary[] | null>(null)
+  const [municipalities, setMunicipalities] = useState<string[]>([])
+  const [municipality, setMunicipality] = useState('')
+  const [fiscalYear, setFiscalYear] = useState(String(fiscalYearOf(new Date())))
+  const [file, setFile] = useState<File | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadBudgets = async () => {
+    const response = await fetch('/api/budgets')
+    const data = await response.json()
+    if (data.success) {
+      setBudgets(data.budgets)
+    } else {
+      setError(data.error || 'Could not load budgets')
+    }
+  }
+
+  useEffect(() => {
+    loadBudgets()
+    // Budgets are matched to warrants by municipality name
+    fetch('/api/warrants')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) return
+        const names = new Set<string>(data.warrants.map((warrant: ArchiveSummary) => warrant.warrantInfo.municipality))
+        setMunicipalities(Array.from(names).sort())
+      })
+  }, [])
+
+  const importBudget = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file || !municipality.trim()) return
+
+    setUploading(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('municipality', municipality.trim())
+      formData.append('fiscalYear', fiscalYear)
+      const response = await fetch('/api/budgets', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (data.success) {
+        setMessage(`Imported ${data.accountCount} budget lines for ${municipality.trim()} fiscal year ${fiscalYear}`)
+        setFile(null)
+        await loadBudgets()
+      } else {
+        setError(data.error || 'Import failed')
+      }
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const removeBudget = async (budget: BudgetSummary) => {
+    if (!window.confirm(`Delete the ${budget.municipality} fiscal year ${budget.fiscalYear} budget?`)) return
+    const response = await fetch(`/api/budgets/${budget.id}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (data.success) {
+      await loadBudgets()
+    } else {
+      setError(data.error || 'Could not delete budget')
+    }
+  }
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-primary-400 flex items-center justify-center gap-3">
+            <PiggyBank className="w-10 h-10" />
+            Budgets
+          </h1>
+          <p className="text-slate-400 mt-2">
+            Approved budgets by account code, compared with each warrant and the year to date
+          </p>
+          <AppNav />
+        </header>
+
+        {error && (
+          <div className="mb-6 bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 bg-green-500/10 border-l-4 border-green-500 p-4 rounded-r flex items-start gap-3">
+            <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+            <p className="text-green-400">{message}</p>
+          </div>
+        )}
+
+        {/* Import */}
+        <form onSubmit={importBudget} className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-2">Import</h2>
+          <p className="text-slate-400 text-sm mb-4">
+            A CSV or XLSX file with an <strong>Account</strong> column and a <strong>Budget</strong> (or{' '}
+            <strong>Appropriation</strong>) column, optionally with a <strong>Description</strong>. Fiscal years
+            run July to June and are named for the year they end. Importing again for the same municipality
+            and year replaces that budget.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-slate-400">
+              Municipality
+              <input
+                value={municipality}
+                onChange={(e) => setMunicipality(e.target.value)}
+                list="municipalities"
+                placeholder="As printed on the warrant"
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+              <datalist id="municipalities">
+                {municipalities.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </label>
+            <label className="text-sm text-slate-400">
+              Fiscal Year
+              <input
+                type="number"
+                value={fiscalYear}
+                onChange={(e) => setFiscalYear(e.target.value)}
+                className="mt-1 block w-28 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+            </label>
+            <label className="text-sm text-slate-400">
+              File
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="mt-1 block text-slate-300"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!file || !municipality.trim() || uploading}
+              className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 px-6 py-2 rounded-lg
+                       font-medium transition-colors flex items-center gap-2"
+            >
+              {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              Import
+            </button>
+          </div>
+        </form>
+
+        {/* Imported Budgets */}
+        <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-4">Imported Budgets</h2>
+          {budgets === null ? (
+            <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+          ) : budgets.length === 0 ? (
+            <p className="text-slate-500">No budgets have been imported yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Municipality</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Fiscal Year</th>
+                    <th className="px-4 py-3 text-left text-primary-400">File</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Accounts</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Total</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Imported</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {budgets.map(budget => (
+                    <tr key={budget.id} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="px-4 py-3">{budget.municipality}</td>
+                      <td className="px-4 py-3 font-mono">FY{budget.fiscalYear}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{budget.fileName}</td>
+                      <td className="px-4 py-3 text-right font-mono">{budget.accountCount}</td>
+                      <td className="px-4 py-3 text-right font-mono">
+                        ${budget.total.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                      </td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{new Date(budget.importedAt).toLocaleString('en-US')}</td>
+                      <td className="px-4 py-3 text-slate-400">
+                        <button onClick={() => removeBudget(budget)} title="Delete" className="p-1 hover:text-red-400">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,403 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, BookOpen, CheckCircle2, Eye, Loader2, Pencil, RotateCcw, Save, Trash2, Upload } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import type { AccountStructure, ArchiveSummary, ChartOfAccounts, ChartSummary } from '@/lib/types'
+
+// As /api/account-structures lists them
+interface StructureSummary extends AccountStructure {
+  structure: string
+}
+
+export default function ChartsPage() {
+  const [charts, setCharts] = useState<ChartSummary[] | null>(null)
+  const [municipalities, setMunicipalities] = useState<string[]>([])
+  const [municipality, setMunicipality] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [viewing, setViewing] = useState<ChartOfAccounts | null>(null)
+  const [filter, setFilter] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [structures, setStructures] = useState<StructureSummary[] | null>(null)
+  const [defaultStructure, setDefaultStructure] = useState('')
+  const [structureMunicipality, setStructureMunicipality] = useState('')
+  const [structureText, setStructureText] = useState('')
+  const [savingStructure, setSavingStructure] = useState(false)
+
+  const loadCharts = async () => {
+    const response = await fetch('/api/charts')
+    const data = await response.json()
+    if (data.success) {
+      setCharts(data.charts)
+    } else {
+      setError(data.error || 'Could not load charts of accounts')
+    }
+  }
+
+  const loadStructures = async () => {
+    const response = await fetch('/api/account-structures')
+    const data = await response.json()
+    if (data.success) {
+      setStructures(data.structures)
+      setDefaultStructure(data.defaultStructure)
+    } else {
+      setError(data.error || 'Could not load account code structures')
+    }
+  }
+
+  useEffect(() => {
+    loadCharts()
+    loadStructures()
+    // Suggest the municipalities of archived warrants, since charts are
+    // matched to warrants by that name
+    fetch('/api/warrants')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) return
+        const names = new Set<string>(data.warrants.map((warrant: ArchiveSummary) => warrant.warrantInfo.municipality))
+        setMunicipalities(Array.from(names).sort())
+      })
+  }, [])
+
+  const importChart = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file || !municipality.trim()) return
+
+    setUploading(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('municipality', municipality.trim())
+      const response = await fetch('/api/charts', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (data.success) {
+        setMessage(`Imported ${data.accountCount} accounts for ${data.municipality}`)
+        setFile(null)
+        await loadCharts()
+      } else {
+        setError(data.error || 'Import failed')
+      }
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const viewChart = async (name: string) => {
+    const response = await fetch(`/api/charts/${encodeURIComponent(name)}`)
+    const data = await response.json()
+    if (data.success) {
+      setViewing(data.chart)
+      setFilter('')
+    } else {
+      setError(data.error || 'Could not load chart of accounts')
+    }
+  }
+
+  const removeChart = async (name: string) => {
+    if (!window.confirm(`Delete the chart of accounts for ${name}?`)) return
+    const response = await fetch(`/api/charts/${encodeURIComponent(name)}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (data.success) {
+      if (viewing?.municipality === name) setViewing(null)
+      await loadCharts()
+    } else {
+      setError(data.error || 'Could not delete chart of accounts')
+    }
+  }
+
+  const saveStructure = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!structureMunicipality.trim() || !structureText.trim()) return
+
+    setSavingStructure(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/account-structures/${encodeURIComponent(structureMunicipality.trim())}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ structure: structureText }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        setMessage(`Saved the account code structure for ${data.municipality}; it applies to warrants parsed or saved from now on`)
+        setStructureText(data.structure)
+        await loadStructures()
+      } else {
+        setError(data.error || 'Could not save account code structure')
+      }
+    } finally {
+      setSavingStructure(false)
+    }
+  }
+
+  const resetStructure = async (name: string) => {
+    if (!window.confirm(`Reset ${name} to the default account code structure?`)) return
+    const response = await fetch(`/api/account-structures/${encodeURIComponent(name)}`, { method: 'DELETE' })
+    const data = await response.json()
+    if (data.success) {
+      if (structureMunicipality.trim() === name) setStructureText('')
+      await loadStructures()
+    } else {
+      setError(data.error || 'Could not reset account code structure')
+    }
+  }
+
+  const query = filter.toLowerCase()
+  const visibleAccounts = viewing
+    ? viewing.accounts.filter(account => !query || Object.values(account).some(value => typeof value === 'string' && value.toLowerCase().includes(query)))
+    : []
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-primary-400 flex items-center justify-center gap-3">
+            <BookOpen className="w-10 h-10" />
+            Chart of Accounts
+          </h1>
+          <p className="text-slate-400 mt-2">
+            Resolve account codes into fund, department, function and object names
+          </p>
+          <AppNav />
+        </header>
+
+        {error && (
+          <div className="mb-6 bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 bg-green-500/10 border-l-4 border-green-500 p-4 rounded-r flex items-start gap-3">
+            <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+            <p className="text-green-400">{message}</p>
+          </div>
+        )}
+
+        {/* Import */}
+        <form onSubmit={importChart} className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-2">Import</h2>
+          <p className="text-slate-400 text-sm mb-4">
+            A CSV or XLSX file with an <strong>Account</strong> column and any of <strong>Fund</strong>,{' '}
+            <strong>Department</strong>, <strong>Function</strong>, <strong>Object</strong> and{' '}
+            <strong>Description</strong>. Rows may cover a whole code (E 10-13-25) or just its leading
+            segments (E 10). A <strong>1099</strong> column marked N keeps payments to those accounts out of
+            1099 totals. Importing again for a municipality replaces its chart.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-slate-400">
+              Municipality
+              <input
+                value={municipality}
+                onChange={(e) => setMunicipality(e.target.value)}
+                list="municipalities"
+                placeholder="As printed on the warrant"
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+              <datalist id="municipalities">
+                {municipalities.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </label>
+            <label className="text-sm text-slate-400">
+              File
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="mt-1 block text-slate-300"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!file || !municipality.trim() || uploading}
+              className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 px-6 py-2 rounded-lg
+                       font-medium transition-colors flex items-center gap-2"
+            >
+              {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              Import
+            </button>
+          </div>
+        </form>
+
+        {/* Imported Charts */}
+        <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-4">Imported Charts</h2>
+          {charts === null ? (
+            <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+          ) : charts.length === 0 ? (
+            <p className="text-slate-500">No charts of accounts have been imported yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Municipality</th>
+                    <th className="px-4 py-3 text-left text-primary-400">File</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Accounts</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Imported</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {charts.map(chart => (
+                    <tr key={chart.municipality} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="px-4 py-3">{chart.municipality}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{chart.fileName}</td>
+                      <td className="px-4 py-3 text-right font-mono">{chart.accountCount}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{new Date(chart.importedAt).toLocaleString('en-US')}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-slate-400">
+                        <button onClick={() => viewChart(chart.municipality)} title="View accounts" className="p-1 hover:text-primary-400">
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => removeChart(chart.municipality)} title="Delete" className="p-1 hover:text-red-400">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Account Code Structure */}
+        <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <h2 className="text-xl font-bold text-primary-400 mb-2">Account Code Structure</h2>
+          <p className="text-slate-400 text-sm mb-4">
+            How account codes split into segments, one layout per prefix letter separated by semicolons, e.g.{' '}
+            <span className="font-mono text-slate-300">E department:3-division:3-object:4</span>. Each segment is a
+            type (<strong>fund</strong>, <strong>department</strong>, <strong>division</strong> or{' '}
+            <strong>object</strong>) and its most digits, or just the digits. Codes that fit are normalized and
+            split; the rest are flagged. Municipalities without their own use{' '}
+            <span className="font-mono text-slate-300">{defaultStructure}</span>.
+          </p>
+          <form onSubmit={saveStructure} className="flex flex-wrap items-end gap-4 mb-6">
+            <label className="text-sm text-slate-400">
+              Municipality
+              <input
+                value={structureMunicipality}
+                onChange={(e) => setStructureMunicipality(e.target.value)}
+                list="municipalities"
+                placeholder="As printed on the warrant"
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+            </label>
+            <label className="text-sm text-slate-400 flex-1 min-w-[20rem]">
+              Structure
+              <input
+                value={structureText}
+                onChange={(e) => setStructureText(e.target.value)}
+                placeholder={defaultStructure}
+                className="mt-1 block w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100 font-mono text-sm"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!structureMunicipality.trim() || !structureText.trim() || savingStructure}
+              className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 px-6 py-2 rounded-lg
+                       font-medium transition-colors flex items-center gap-2"
+            >
+              {savingStructure ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              Save
+            </button>
+          </form>
+          {structures === null ? (
+            <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+          ) : structures.length === 0 ? (
+            <p className="text-slate-500">Every municipality uses the default structure.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Municipality</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Structure</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Updated</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {structures.map(structure => (
+                    <tr key={structure.municipality} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                      <td className="px-4 py-3">{structure.municipality}</td>
+                      <td className="px-4 py-3 font-mono text-xs text-slate-300">{structure.structure}</td>
+                      <td className="px-4 py-3 text-slate-400 text-xs">{new Date(structure.updatedAt).toLocaleString('en-US')}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-slate-400">
+                        <button
+                          onClick={() => {
+                            setStructureMunicipality(structure.municipality)
+                            setStructureText(structure.structure)
+                          }}
+                          title="Edit"
+                          className="p-1 hover:text-primary-400"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => resetStructure(structure.municipality)} title="Reset to default" className="p-1 hover:text-red-400">
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Accounts */}
+        {viewing && (
+          <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
+            <div className="flex justify-between items-center mb-4 gap-4">
+              <h2 className="text-xl font-bold text-primary-400">{viewing.municipality} Accounts</h2>
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter"
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100 text-sm"
+              />
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-slate-700 max-h-[32rem] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Account</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Fund</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Department</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Function</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Object</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Description</th>
+                    <th className="px-4 py-3 text-center text-primary-400">1099</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleAccounts.map((account, index) => (
+                    <tr key={index} className="border-t border-slate-700/50">
+                      <td className="px-4 py-2 font-mono">{account.code}</td>
+                      <td className="px-4 py-2 text-slate-400">{account.fund}</td>
+                      <td className="px-4 py-2 text-slate-400">{account.department}</td>
+                      <td className="px-4 py-2 text-slate-400">{account.function}</td>
+                      <td className="px-4 py-2 text-slate-400">{account.object}</td>
+                      <td className="px-4 py-2 text-slate-400">{account.description}</td>
+                      <td className="px-4 py-2 text-center text-slate-400">
+                        {account.reportable1099 === undefined ? '' : account.reportable1099 ? 'Yes' : 'No'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
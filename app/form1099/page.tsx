@@ -0,0 +1,291 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ChevronDown, ChevronRight, Download, Loader2, Receipt } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import { saveResponse } from '@/lib/download'
+import { FORM_1099_EXCLUSION_LABELS, warrantYears } from '@/lib/form1099'
+import { PAYMENT_TYPES, PAYMENT_TYPE_LABELS } from '@/lib/paymentTypes'
+import type { ArchiveSummary, Form1099Report, PaymentType } from '@/lib/types'
+
+function formatMoney(amount: number): string {
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export default function Form1099Page() {
+  const [archive, setArchive] = useState<ArchiveSummary[]>([])
+  const [year, setYear] = useState<number | null>(null)
+  const [municipality, setMunicipality] = useState('')
+  // Empty uses the server's configured threshold and exclusions
+  const [threshold, setThreshold] = useState('')
+  const [excluded, setExcluded] = useState<PaymentType[] | null>(null)
+  const [report, setReport] = useState<Form1099Report | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const queryParams = useCallback(() => {
+    const params = new URLSearchParams()
+    if (year) params.set('year', String(year))
+    if (municipality) params.set('municipality', municipality)
+    if (threshold.trim()) params.set('threshold', threshold.trim())
+    if (excluded) params.set('exclude', excluded.join(','))
+    return params
+  }, [year, municipality, threshold, excluded])
+
+  useEffect(() => {
+    fetch('/api/warrants')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) return
+        setArchive(data.warrants)
+        const [latest] = warrantYears(data.warrants)
+        if (latest) setYear(latest)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!year) return
+    setLoading(true)
+    setError(null)
+    setExpanded(null)
+    fetch(`/api/form1099?${queryParams()}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setReport(data.report)
+        } else {
+          setError(data.error || 'Could not load the 1099 report')
+        }
+      })
+      .finally(() => setLoading(false))
+  }, [year, queryParams])
+
+  const toggleExcluded = (type: PaymentType) => {
+    setExcluded(prev => {
+      const current = prev ?? report?.excludedPaymentTypes ?? []
+      return current.includes(type) ? current.filter(entry => entry !== type) : [...current, type]
+    })
+  }
+
+  const downloadExcel = async () => {
+    const response = await fetch(`/api/form1099/export?${queryParams()}`)
+    if (!response.ok) {
+      const data = await response.json()
+      setError(data.error || 'Export failed')
+      return
+    }
+    await saveResponse(response, `1099_Worksheet_${year}.xlsx`)
+  }
+
+  const years = warrantYears(archive)
+  const municipalities = Array.from(new Set(archive.map(warrant => warrant.warrantInfo.municipality))).sort()
+  const excludedTypes = excluded ?? report?.excludedPaymentTypes ?? []
+  const vendorKey = (vendor: Form1099Report['vendors'][number]) => `${vendor.municipality}:${vendor.vendorCode || vendor.vendorName}`
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-primary-400 flex items-center justify-center gap-3">
+            <Receipt className="w-10 h-10" />
+            1099 Vendors
+          </h1>
+          <p className="text-slate-400 mt-2">
+            Calendar-year payments by vendor code across archived warrants
+          </p>
+          <AppNav />
+        </header>
+
+        {error && (
+          <div className="mb-6 bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-slate-800/50 rounded-2xl p-8 mb-6 backdrop-blur">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-slate-400">
+              Calendar Year
+              <select
+                value={year ?? ''}
+                onChange={(e) => setYear(parseInt(e.target.value, 10))}
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              >
+                {years.length === 0 && <option value="">No dated warrants</option>}
+                {years.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-slate-400">
+              Municipality
+              <select
+                value={municipality}
+                onChange={(e) => setMunicipality(e.target.value)}
+                className="mt-1 block bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              >
+                <option value="">All</option>
+                {municipalities.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-slate-400">
+              Threshold
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={threshold}
+                placeholder={report ? String(report.threshold) : ''}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="mt-1 block w-28 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+              />
+            </label>
+            <div className="text-sm text-slate-400">
+              Leave out
+              <div className="mt-1 flex gap-3 py-2">
+                {PAYMENT_TYPES.map(type => (
+                  <label key={type} className="flex items-center gap-1 text-slate-300">
+                    <input type="checkbox" checked={excludedTypes.includes(type)} onChange={() => toggleExcluded(type)} />
+                    {PAYMENT_TYPE_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={downloadExcel}
+              disabled={!report || report.warrants.length === 0}
+              className="ml-auto bg-green-600 hover:bg-green-700 disabled:opacity-50 px-6 py-2 rounded-lg
+                       font-medium transition-colors flex items-center gap-2"
+            >
+              <Download className="w-5 h-5" />
+              Download Worksheet
+            </button>
+          </div>
+          <p className="text-slate-500 text-sm mt-4">
+            Payments to accounts marked N in a chart of accounts&apos; 1099 column are left out too.
+          </p>
+        </div>
+
+        {loading && !report && (
+          <div className="text-center text-slate-400">
+            <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+          </div>
+        )}
+
+        {report && report.undated.length > 0 && (
+          <p className="mb-6 text-amber-400 text-sm flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            {report.undated.length} archived warrant{report.undated.length === 1 ? ' has' : 's have'} no readable date and
+            {report.undated.length === 1 ? ' is' : ' are'} left out: {report.undated.map(warrant => `${warrant.warrantInfo.municipality} #${warrant.warrantInfo.warrantNumber}`).join(', ')}
+          </p>
+        )}
+
+        {report && report.warrants.length === 0 && (
+          <p className="text-center text-slate-500">No archived warrants dated in {report.year}.</p>
+        )}
+
+        {report && report.warrants.length > 0 && (
+          <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
+            <div className="flex justify-between items-baseline mb-4">
+              <h2 className="text-xl font-bold text-primary-400">Vendors {report.year}</h2>
+              <span className="text-slate-400 text-sm">
+                {report.eligibleCount} of {report.vendors.length} vendors at or over {formatMoney(report.threshold)}
+                {' • '}{report.warrants.length} warrants • {formatMoney(report.total)} reportable
+                {report.excludedTotal !== 0 && ` • ${formatMoney(report.excludedTotal)} left out`}
+              </span>
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-slate-700">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-primary-400">Vendor</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Municipality</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Total Paid</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Payments</th>
+                    <th className="px-4 py-3 text-right text-primary-400">Left Out</th>
+                    <th className="px-4 py-3 text-center text-primary-400">1099</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.vendors.map(vendor => {
+                    const key = vendorKey(vendor)
+                    const open = expanded === key
+                    return (
+                      <Fragment key={key}>
+                        <tr className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                          <td className="px-4 py-2">
+                            <button
+                              onClick={() => setExpanded(open ? null : key)}
+                              className="flex items-center gap-1 text-left hover:text-primary-400"
+                            >
+                              {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                              <span className="font-mono text-slate-400 mr-2">{vendor.vendorCode}</span>
+                              {vendor.vendorName}
+                            </button>
+                          </td>
+                          <td className="px-4 py-2 text-slate-400">{vendor.municipality}</td>
+                          <td className="px-4 py-2 text-right font-mono">{formatMoney(vendor.total)}</td>
+                          <td className="px-4 py-2 text-right font-mono">{vendor.paymentCount}</td>
+                          <td className="px-4 py-2 text-right font-mono text-slate-500">
+                            {vendor.excludedTotal ? formatMoney(vendor.excludedTotal) : ''}
+                          </td>
+                          <td className="px-4 py-2 text-center">
+                            {vendor.eligible
+                              ? <span className="text-amber-400 font-medium">Yes</span>
+                              : <span className="text-slate-500">No</span>}
+                          </td>
+                        </tr>
+                        {open && (
+                          <tr className="bg-slate-900/40">
+                            <td colSpan={6} className="px-8 py-3">
+                              <table className="w-full text-xs">
+                                <thead className="text-slate-400">
+                                  <tr>
+                                    <th className="py-1 text-left">Warrant</th>
+                                    <th className="py-1 text-left">Check #</th>
+                                    <th className="py-1 text-left">Account</th>
+                                    <th className="py-1 text-left">Description</th>
+                                    <th className="py-1 text-right">Amount</th>
+                                    <th className="py-1 text-left pl-4">Left Out</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {vendor.payments.map((payment, index) => (
+                                    <tr key={index} className={payment.excluded ? 'text-slate-500' : ''}>
+                                      <td className="py-1">
+                                        <Link href={`/?warrant=${payment.warrantId}`} className="text-primary-400 hover:underline">
+                                          #{payment.warrantNumber}
+                                        </Link>
+                                        <span className="text-slate-500 ml-2">{payment.date}</span>
+                                      </td>
+                                      <td className="py-1 font-mono">
+                                        {payment.check}
+                                        <span className="text-slate-500 ml-1">{PAYMENT_TYPE_LABELS[payment.paymentType]}</span>
+                                      </td>
+                                      <td className="py-1 font-mono">{payment.account}</td>
+                                      <td className="py-1">{payment.description}</td>
+                                      <td className="py-1 text-right font-mono">{formatMoney(payment.amount)}</td>
+                                      <td className="py-1 pl-4">{payment.excluded ? FORM_1099_EXCLUSION_LABELS[payment.excluded] : ''}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
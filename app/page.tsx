@@ -1,110 +1,462 @@
 'use client'
 
-import { useState, useCallback } from 'react'
-import { Upload, FileText, Download, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react'
-
-interface WarrantItem {
-  vendorCode: string
-  vendorName: string
-  check: string
-  month: string
-  description: string
-  account: string
-  deptCategory: string
-  amount: number
-}
+import { useState, useCallback, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { Upload, FileText, Download, Loader2, AlertCircle, CheckCircle2, Scale, Undo2, Layers, Save, Flag, RefreshCw } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import BatchFileList from '@/components/BatchFileList'
+import BudgetView from '@/components/BudgetView'
+import CheckRegisterView from '@/components/CheckRegisterView'
+import type { BatchFile } from '@/components/BatchFileList'
+import ResultsGrid from '@/components/ResultsGrid'
+import WarrantHeaderForm from '@/components/WarrantHeaderForm'
+import { useWarrantEditor } from '@/components/useWarrantEditor'
+import type { EditorState } from '@/components/useWarrantEditor'
+import { saveResponse } from '@/lib/download'
+import { unknownAccounts } from '@/lib/chartOfAccounts'
+import { buildCheckRegister } from '@/lib/checkRegister'
+import { expandUploads } from '@/lib/expandUploads'
+import { EXPORT_FORMATS, exportFilename, getExportFormat } from '@/lib/export/formats'
+import type { ExportFormatId } from '@/lib/export/formats'
+import { getWarrantFormat, warrantFormats } from '@/lib/parser'
+import type { FormatScore } from '@/lib/parser'
+import { reconcile } from '@/lib/reconcile'
+import type { ArchivedWarrant, BudgetComparison, ChartOfAccounts, ControlTotal, ParseJob, ParseProgress, ReconciliationReport, ReviewFlag, WarrantInfo, WarrantItem } from '@/lib/types'
 
 interface ParseResult {
   success: boolean
   data: WarrantItem[]
-  warrantInfo: {
-    municipality: string
-    warrantNumber: string
-    date: string
-  }
+  warrantInfo: WarrantInfo
   total: number
+  reconciliation: ReconciliationReport
+  controlTotals: ControlTotal[]
+  extractionMethod?: 'text-layer' | 'ocr'
+  format: FormatScore & { forced: boolean, layout?: boolean }
+  formatScores: FormatScore[]
+  archiveId?: string
+  savedAt?: string
+  // The PDF was archived before; that entry, with the work saved on it, was
+  // kept and Save replaces it with these rows
+  alreadyArchived?: boolean
+  // Served from the server's cache of earlier parses of the same PDF
+  cached?: boolean
   error?: string
 }
 
+// A file in the batch, with its parse result and any grid edits made to it
+interface BatchEntry extends BatchFile {
+  file?: File
+  result?: ParseResult
+  edits?: EditorState
+  // The header was confirmed or edited since the archive copy was saved
+  headerChanged?: boolean
+  // Re-parse from scratch instead of using the server's cached result
+  force?: boolean
+}
+
+let nextEntryId = 1
+
+const JOB_POLL_MS = 1000
+
+// A header with guessed values has to be confirmed before it is exported
+function headerNeedsConfirming(warrantInfo?: WarrantInfo): boolean {
+  return !!warrantInfo && !warrantInfo.confirmed && (warrantInfo.uncertain || []).length > 0
+}
+
+// What a running parse job is doing, for the file list
+function progressMessage({ stage, pagesExtracted, pagesOcrd, pageCount, itemsParsed }: ParseProgress): string {
+  switch (stage) {
+    case 'extracting':
+      return `Reading text layer: ${pagesExtracted} page${pagesExtracted === 1 ? '' : 's'}...`
+    case 'ocr':
+      return pagesOcrd > 0 && pageCount ? `OCR: ${pagesOcrd} of ${pageCount} pages...` : 'Running OCR on scanned pages...'
+    case 'parsing':
+      return 'Parsing line items...'
+    case 'reconciling':
+      return `${itemsParsed} items parsed • reconciling totals...`
+    case 'done':
+      return `${itemsParsed} items parsed`
+  }
+}
+
+const VIEW_LABELS = {
+  items: 'Line Items',
+  checks: 'Check Register',
+  budget: 'Budget vs Actual',
+}
+
 export default function Home() {
-  const [file, setFile] = useState<File | null>(null)
-  const [loading, setLoading] = useState(false)
-  const [progress, setProgress] = useState('')
-  const [result, setResult] = useState<ParseResult | null>(null)
+  const [entries, setEntries] = useState<BatchEntry[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [formatId, setFormatId] = useState('')
+  const [processing, setProcessing] = useState(false)
+  // Server parse job per file while it's processing
+  const jobIds = useRef(new Map<number, string>())
   const [error, setError] = useState<string | null>(null)
+  // Flags from /api/review and the items they were computed for
+  const [review, setReview] = useState<{ items: WarrantItem[], flags: ReviewFlag[] } | null>(null)
+  const [chart, setChart] = useState<ChartOfAccounts | null>(null)
+  // Budget vs actual for the rows it was computed from; the threshold is the
+  // server's default until changed in the view
+  const [budget, setBudget] = useState<{ items: WarrantItem[], comparison: BudgetComparison | null } | null>(null)
+  const [budgetThreshold, setBudgetThreshold] = useState<number | undefined>(undefined)
+  const [view, setView] = useState<'items' | 'checks' | 'budget'>('items')
+  const [exportFormat, setExportFormat] = useState<ExportFormatId>('xlsx')
+  const editor = useWarrantEditor()
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault()
-    const droppedFile = e.dataTransfer.files[0]
-    if (droppedFile?.type === 'application/pdf') {
-      setFile(droppedFile)
-      setError(null)
-      setResult(null)
-    } else {
-      setError('Please upload a PDF file')
+  const result = entries.find(entry => entry.id === selectedId)?.result || null
+  const pendingCount = entries.filter(entry => entry.status === 'pending' || entry.status === 'error').length
+  const doneCount = entries.filter(entry => entry.result).length
+
+  // Totals, stats and reconciliation follow the corrected rows, not the parse
+  const items = editor.items
+  const total = items.reduce((sum, item) => sum + item.amount, 0)
+  const reconciliation = result ? reconcile(items, result.controlTotals, editor.origins) : null
+  const reviewFlags = review && review.items === items ? review.flags : []
+  const flaggedRows = new Set(reviewFlags.map(flag => flag.index)).size
+  const warrantInfo = result?.warrantInfo
+  const archiveId = result?.archiveId
+  const municipality = warrantInfo?.municipality
+  const headerUnconfirmed = headerNeedsConfirming(warrantInfo)
+  const unconfirmedEntries = entries.filter(entry => headerNeedsConfirming(entry.result?.warrantInfo))
+  const selectedEntry = entries.find(entry => entry.id === selectedId)
+  const unknownCodes = chart ? unknownAccounts(chart, items) : []
+  const budgetComparison = budget?.comparison ?? null
+  const checkRegister = buildCheckRegister(items)
+
+  // The municipality's chart of accounts, when one has been imported
+  useEffect(() => {
+    setChart(null)
+    if (!municipality) return
+    fetch(`/api/charts/${encodeURIComponent(municipality)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setChart(data.chart)
+      })
+      .catch(() => setChart(null))
+  }, [municipality])
+
+  // Re-review shortly after the rows stop changing; the check runs on the
+  // server because it compares against the archive
+  useEffect(() => {
+    if (!warrantInfo || items.length === 0) {
+      setReview(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/review', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items, warrantInfo, archiveId }),
+        })
+        const data = await response.json()
+        if (data.success) setReview({ items, flags: data.flags })
+      } catch {
+        // Review is advisory; the grid stays usable without it
+      }
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [items, warrantInfo, archiveId])
+
+  // Budget vs actual follows the rows the same way
+  useEffect(() => {
+    if (!warrantInfo) {
+      setBudget(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/budgets/compare', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items, warrantInfo, archiveId, threshold: budgetThreshold }),
+        })
+        const data = await response.json()
+        if (data.success) setBudget({ items, comparison: data.comparison })
+      } catch {
+        setBudget(null)
+      }
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [items, warrantInfo, archiveId, budgetThreshold])
+
+  // /?warrant=<id> reopens an archived warrant without re-uploading it
+  useEffect(() => {
+    const warrantId = new URLSearchParams(window.location.search).get('warrant')
+    if (!warrantId) return
+
+    fetch(`/api/warrants/${warrantId}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) {
+          setError(data.error || 'Could not open archived warrant')
+          return
+        }
+        const warrant: ArchivedWarrant = data.warrant
+        const format = getWarrantFormat(warrant.format)
+        const entry: BatchEntry = {
+          id: nextEntryId++,
+          name: warrant.fileName,
+          size: 0,
+          status: 'done',
+          message: `${warrant.items.length} items • from archive`,
+          result: {
+            success: true,
+            data: warrant.items,
+            warrantInfo: warrant.warrantInfo,
+            total: warrant.total,
+            reconciliation: reconcile(warrant.items, warrant.controlTotals),
+            controlTotals: warrant.controlTotals,
+            format: { id: warrant.format, name: format ? format.name : warrant.format, score: 1, forced: false },
+            formatScores: [],
+            archiveId: warrant.id,
+            savedAt: warrant.savedAt,
+          },
+        }
+        setEntries(prev => [...prev, entry])
+        setSelectedId(entry.id)
+        editor.load(warrant.items, undefined, warrant.corrections)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not open archived warrant'))
+  }, [editor.load])
+
+  const updateEntry = (id: number, changes: Partial<BatchEntry>) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry))
+  }
+
+  const addFiles = useCallback(async (files: File[]) => {
+    setError(null)
+    try {
+      const { pdfs, skipped } = await expandUploads(files)
+      if (skipped.length > 0) {
+        setError(`Skipped files that are not PDFs or zip archives: ${skipped.join(', ')}`)
+      }
+      setEntries(prev => [
+        ...prev,
+        ...pdfs.map(file => ({
+          id: nextEntryId++,
+          name: file.name,
+          size: file.size,
+          file,
+          status: 'pending' as const,
+          message: 'Waiting',
+        })),
+      ])
+    } catch (err) {
+      setError(err instanceof Error ? `Could not read upload: ${err.message}` : 'Could not read upload')
     }
   }, [])
 
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault()
+    addFiles(Array.from(e.dataTransfer.files))
+  }, [addFiles])
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile) {
-      setFile(selectedFile)
-      setError(null)
-      setResult(null)
+    addFiles(Array.from(e.target.files || []))
+    e.target.value = ''
+  }
+
+  // Opens a parsed file in the grid, keeping the edits made to the current one
+  const selectEntry = (id: number) => {
+    if (id === selectedId) return
+    const target = entries.find(entry => entry.id === id)
+    if (!target?.result) return
+    setEntries(prev => prev.map(entry => entry.id === selectedId ? { ...entry, edits: editor.snapshot } : entry))
+    setSelectedId(id)
+    editor.load(target.result.data, target.edits)
+  }
+
+  const removeEntry = (id: number) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id))
+    if (id === selectedId) {
+      setSelectedId(null)
+      editor.load([])
     }
   }
 
-  const processFile = async () => {
-    if (!file) return
+  // Files are parsed one at a time as server jobs, polled for progress, or
+  // in a single request where the server has no jobs; a failure or
+  // cancellation is recorded on that file and the rest of the batch carries on
+  const processFiles = async (queue = entries.filter(entry => entry.file && (entry.status === 'pending' || entry.status === 'error'))) => {
+    if (queue.length === 0) return
 
-    setLoading(true)
-    setProgress('Uploading PDF...')
+    setProcessing(true)
     setError(null)
+    let opened = selectedId
+    let useJobs = true
 
-    try {
-      const formData = new FormData()
-      formData.append('file', file)
-
-      setProgress('Processing PDF on server (this may take up to 60 seconds for scanned documents)...')
-      
-      const response = await fetch('/api/parse', {
-        method: 'POST',
-        body: formData,
-      })
+    for (const entry of queue) {
+      updateEntry(entry.id, { status: 'processing', message: 'Uploading...' })
 
-      const data = await response.json()
+      try {
+        const formData = new FormData()
+        formData.append('file', entry.file!)
+        if (formatId) formData.append('format', formatId)
+        if (entry.force) formData.append('force', 'true')
+
+        let data
+        const started = useJobs ? await (await fetch('/api/parse/jobs', { method: 'POST', body: formData })).json() : null
+        if (!started || started.jobsUnavailable) {
+          // Where the server can't run jobs, the file is parsed in the one
+          // request, without progress
+          useJobs = false
+          updateEntry(entry.id, { message: 'Parsing...' })
+          data = await (await fetch('/api/parse', { method: 'POST', body: formData })).json()
+        } else {
+          if (!started.success) {
+            updateEntry(entry.id, { status: 'error', message: started.error || 'Failed to parse PDF' })
+            continue
+          }
+
+          jobIds.current.set(entry.id, started.jobId)
+          let job: ParseJob = started.job
+          while (job.status === 'running') {
+            updateEntry(entry.id, { message: progressMessage(job.progress) })
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_MS))
+            const polled = await (await fetch(`/api/parse/jobs/${job.id}`)).json()
+            if (!polled.success) throw new Error(polled.error || 'Lost track of the parse job')
+            job = polled.job
+          }
+          jobIds.current.delete(entry.id)
+
+          if (job.status === 'canceled') {
+            updateEntry(entry.id, { status: 'pending', message: 'Canceled' })
+            continue
+          }
 
-      if (data.success) {
-        setResult(data)
-        setProgress('Complete!')
-      } else {
-        setError(data.error || 'Failed to parse PDF')
+          data = await (await fetch(`/api/parse/jobs/${job.id}/result`)).json()
+        }
+
+        if (data.success) {
+          updateEntry(entry.id, {
+            status: 'done',
+            message: `${data.data.length} items • $${data.total.toLocaleString('en-US', { minimumFractionDigits: 2 })}${data.cached ? ' • cached' : ''}`,
+            result: data,
+            edits: undefined,
+          })
+          if (opened === null || entry.force) {
+            opened = entry.id
+            setSelectedId(entry.id)
+            editor.load(data.data)
+          }
+        } else {
+          updateEntry(entry.id, { status: 'error', message: data.error || 'Failed to parse PDF' })
+        }
+      } catch (err) {
+        jobIds.current.delete(entry.id)
+        updateEntry(entry.id, { status: 'error', message: err instanceof Error ? err.message : 'An error occurred' })
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-    } finally {
-      setLoading(false)
     }
+
+    setProcessing(false)
+  }
+
+  // Parses the open file again, bypassing the server's cache; its grid
+  // edits are dropped
+  const reparseSelected = () => {
+    const entry = entries.find(candidate => candidate.id === selectedId)
+    if (!entry?.file || processing) return
+    processFiles([{ ...entry, force: true }])
+  }
+
+  // The polling loop picks up the cancellation and moves on to the next file
+  const cancelEntry = async (id: number) => {
+    const jobId = jobIds.current.get(id)
+    if (!jobId) return
+    updateEntry(id, { message: 'Canceling...' })
+    await fetch(`/api/parse/jobs/${jobId}`, { method: 'DELETE' })
   }
 
-  const downloadExcel = async () => {
+  // Stores the grid's corrected rows over the archived parse
+  const saveToArchive = async () => {
+    if (!result?.archiveId) return
+
+    const response = await fetch(`/api/warrants/${result.archiveId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items, warrantInfo: result.warrantInfo, corrections: editor.corrections }),
+    })
+    const data = await response.json()
+
+    if (data.success) {
+      updateEntry(selectedId!, {
+        result: { ...result, data: items, total, savedAt: data.warrant.savedAt },
+        headerChanged: false,
+        message: `${items.length} items • saved to archive`,
+      })
+    } else {
+      setError(data.error || 'Could not save to archive')
+    }
+  }
+
+  // Exports and the archive use the header as confirmed in the form
+  const confirmHeader = (confirmed: WarrantInfo) => {
     if (!result) return
+    updateEntry(selectedId!, { result: { ...result, warrantInfo: confirmed }, headerChanged: !!result.archiveId })
+  }
+
+  const downloadExport = async () => {
+    if (!result || headerUnconfirmed) return
+
+    const format = getExportFormat(exportFormat)!
+    // The board packet opens in a new tab, ready to print. The tab is opened
+    // before the request so pop-up blockers treat it as part of the click.
+    const reportTab = format.id === 'report' ? window.open('', '_blank') : null
+    const response = await fetch(`/api/export?format=${format.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        data: items,
+        warrantInfo: result.warrantInfo,
+        total,
+        corrections: editor.corrections,
+        archiveId: result.archiveId,
+        budgetThreshold,
+      }),
+    })
+
+    if (!response.ok) {
+      reportTab?.close()
+      const data = await response.json()
+      setError(data.error || 'Export failed')
+      return
+    }
+    if (reportTab) {
+      reportTab.location.href = window.URL.createObjectURL(await response.blob())
+      return
+    }
+    await saveResponse(response, exportFilename(result.warrantInfo, format))
+  }
+
+  // One workbook for every parsed file, using each file's corrected rows
+  const downloadBatchExcel = async () => {
+    if (unconfirmedEntries.length > 0) return
 
-    const response = await fetch('/api/export', {
+    const warrants = entries
+      .filter(entry => entry.result)
+      .map(entry => {
+        const state = entry.id === selectedId ? editor.snapshot : entry.edits
+        const data = state ? state.rows.map(row => row.item) : entry.result!.data
+        return {
+          data,
+          warrantInfo: entry.result!.warrantInfo,
+          total: data.reduce((sum, item) => sum + item.amount, 0),
+          corrections: state ? state.corrections : [],
+          archiveId: entry.result!.archiveId,
+        }
+      })
+
+    const response = await fetch('/api/export/batch', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(result),
+      body: JSON.stringify({ warrants }),
     })
 
-    const blob = await response.blob()
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${result.warrantInfo.municipality}_Warrant_${result.warrantInfo.warrantNumber}.xlsx`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    window.URL.revokeObjectURL(url)
+    await saveResponse(response, `Warrant_Batch_${new Date().toISOString().slice(0, 10)}.xlsx`)
   }
 
   return (
@@ -119,6 +471,7 @@ export default function Home() {
           <p className="text-slate-400 mt-2">
             Maine School Board Academy • Extract payment data from Municipal A/P Warrant PDFs
           </p>
+          <AppNav />
         </header>
 
         {/* Upload Card */}
@@ -126,7 +479,7 @@ export default function Home() {
           <div className="bg-primary-500/10 border-l-4 border-primary-500 p-4 rounded-r mb-6">
             <p className="text-slate-300">
               <strong className="text-primary-400">Supported Formats:</strong> Municipal A/P Warrants 
-              with vendor codes, check numbers, account codes (E/G prefix), department categories, and amounts.
+              with vendor codes, check numbers, account codes (E/R/G prefix), department categories, and amounts.
               Uses OCR technology - works with most PDF formats including scanned documents.
             </p>
           </div>
@@ -142,51 +495,72 @@ export default function Home() {
             <input
               type="file"
               id="fileInput"
-              accept=".pdf"
+              accept=".pdf,.zip"
+              multiple
               onChange={handleFileChange}
               className="hidden"
             />
             <Upload className="w-16 h-16 mx-auto mb-4 text-slate-500" />
-            <p className="text-lg font-medium">Drop your A/P Warrant PDF here</p>
+            <p className="text-lg font-medium">Drop A/P Warrant PDFs or a zip of them here</p>
             <p className="text-slate-500 mt-1">or click to browse</p>
           </div>
 
-          {/* Selected File */}
-          {file && (
-            <div className="mt-4 flex items-center justify-between bg-slate-700/50 rounded-lg p-4">
-              <div className="flex items-center gap-3">
-                <FileText className="w-6 h-6 text-primary-400" />
-                <span>{file.name}</span>
-                <span className="text-slate-500 text-sm">
-                  ({(file.size / 1024 / 1024).toFixed(2)} MB)
-                </span>
-              </div>
-              <button
-                onClick={processFile}
-                disabled={loading}
-                className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 
-                         px-6 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle2 className="w-5 h-5" />
-                    Parse Warrant
-                  </>
+          {/* Selected Files */}
+          {entries.length > 0 && (
+            <div className="mt-4 space-y-4">
+              <BatchFileList
+                files={entries}
+                selectedId={selectedId}
+                onSelect={selectEntry}
+                onRemove={removeEntry}
+                onCancel={cancelEntry}
+              />
+              <div className="flex items-center justify-end gap-3">
+                <select
+                  value={formatId}
+                  onChange={(e) => setFormatId(e.target.value)}
+                  disabled={processing}
+                  className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm"
+                  title="Warrant layout"
+                >
+                  <option value="">Auto-detect format</option>
+                  {warrantFormats.map(format => (
+                    <option key={format.id} value={format.id}>{format.name}</option>
+                  ))}
+                </select>
+                {doneCount > 1 && (
+                  <button
+                    onClick={downloadBatchExcel}
+                    disabled={processing || unconfirmedEntries.length > 0}
+                    title={unconfirmedEntries.length > 0
+                      ? `Confirm the warrant header of ${unconfirmedEntries.map(entry => entry.name).join(', ')} first`
+                      : undefined}
+                    className="bg-green-600 hover:bg-green-700 disabled:opacity-50 px-6 py-2 rounded-lg
+                             font-medium transition-colors flex items-center gap-2"
+                  >
+                    <Layers className="w-5 h-5" />
+                    Download Combined Workbook
+                  </button>
                 )}
-              </button>
-            </div>
-          )}
-
-          {/* Progress */}
-          {loading && (
-            <div className="mt-4 text-center text-slate-400">
-              <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2" />
-              {progress}
+                <button
+                  onClick={() => processFiles()}
+                  disabled={processing || pendingCount === 0}
+                  className="bg-primary-500 hover:bg-primary-600 disabled:opacity-50 
+                           px-6 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  {processing ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle2 className="w-5 h-5" />
+                      {pendingCount > 1 ? `Parse ${pendingCount} Warrants` : 'Parse Warrant'}
+                    </>
+                  )}
+                </button>
+              </div>
             </div>
           )}
 
@@ -200,88 +574,250 @@ export default function Home() {
         </div>
 
         {/* Results */}
-        {result && result.success && (
+        {result && reconciliation && (
           <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-primary-400">
                 📊 Extraction Results
               </h2>
-              <button
-                onClick={downloadExcel}
-                className="bg-green-600 hover:bg-green-700 px-6 py-2 rounded-lg 
-                         font-medium transition-colors flex items-center gap-2"
-              >
-                <Download className="w-5 h-5" />
-                Download Excel
-              </button>
+              <div className="flex items-center gap-3">
+                {editor.corrections.length > 0 && (
+                  <span className="text-slate-400 text-sm">
+                    {editor.corrections.length} manual correction{editor.corrections.length === 1 ? '' : 's'}
+                  </span>
+                )}
+                <button
+                  onClick={editor.undo}
+                  disabled={!editor.canUndo}
+                  className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-4 py-2 rounded-lg
+                           font-medium transition-colors flex items-center gap-2"
+                  title="Undo last change"
+                >
+                  <Undo2 className="w-5 h-5" />
+                  Undo
+                </button>
+                {result.archiveId && (
+                  <button
+                    onClick={saveToArchive}
+                    disabled={editor.corrections.length === 0 && !selectedEntry?.headerChanged}
+                    className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-4 py-2 rounded-lg
+                             font-medium transition-colors flex items-center gap-2"
+                    title={result.alreadyArchived ? 'Replace the archived copy with these rows' : 'Save corrections to the archive'}
+                  >
+                    <Save className="w-5 h-5" />
+                    Save
+                  </button>
+                )}
+                <div className="flex">
+                  <button
+                    onClick={downloadExport}
+                    disabled={headerUnconfirmed}
+                    title={headerUnconfirmed ? 'Confirm the warrant header first' : undefined}
+                    className="bg-green-600 hover:bg-green-700 disabled:opacity-40 px-6 py-2 rounded-l-lg
+                             font-medium transition-colors flex items-center gap-2"
+                  >
+                    <Download className="w-5 h-5" />
+                    {exportFormat === 'report' ? 'Open' : 'Download'} {getExportFormat(exportFormat)!.label}
+                  </button>
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormatId)}
+                    className="bg-green-700 hover:bg-green-800 rounded-r-lg px-2 text-sm border-l border-green-800"
+                    title="Export format"
+                  >
+                    {EXPORT_FORMATS.map(format => (
+                      <option key={format.id} value={format.id} className="bg-slate-800">{format.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
             </div>
 
+            {/* Reconciliation */}
+            {reconciliation.checked === 0 ? (
+              <div className="bg-amber-500/10 border-l-4 border-amber-500 p-4 rounded-r mb-6 flex items-start gap-3">
+                <Scale className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                <p className="text-amber-400">
+                  Not verified: no printed Vendor, Invoice or Warrant totals were found to reconcile against.
+                </p>
+              </div>
+            ) : reconciliation.balanced ? (
+              <div className="bg-green-500/10 border-l-4 border-green-500 p-4 rounded-r mb-6 flex items-start gap-3">
+                <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+                <p className="text-green-400">
+                  Balanced: all {reconciliation.checked} printed totals match the parsed line items.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r mb-6">
+                <div className="flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                  <p className="text-red-400">
+                    Out of balance: {reconciliation.mismatches.length} of {reconciliation.checked} printed
+                    totals do not match the parsed line items. Review before downloading.
+                  </p>
+                </div>
+                <table className="w-full text-sm mt-3">
+                  <thead>
+                    <tr className="text-slate-400">
+                      <th className="px-2 py-1 text-left">Total</th>
+                      <th className="px-2 py-1 text-right">Printed</th>
+                      <th className="px-2 py-1 text-right">Parsed</th>
+                      <th className="px-2 py-1 text-right">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reconciliation.mismatches.map((entry, idx) => (
+                      <tr key={idx} className="border-t border-red-500/20">
+                        <td className="px-2 py-1">{entry.label}</td>
+                        <td className="px-2 py-1 text-right font-mono">
+                          ${entry.printed.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                        </td>
+                        <td className="px-2 py-1 text-right font-mono">
+                          ${entry.parsed.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                        </td>
+                        <td className="px-2 py-1 text-right font-mono text-red-400">
+                          {entry.difference.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {/* Warrant Info */}
             <div className="bg-slate-700/30 rounded-lg p-4 mb-6">
               <p className="text-slate-300">
                 <strong className="text-primary-400">{result.warrantInfo.municipality}</strong>
                 {' • '}Warrant #{result.warrantInfo.warrantNumber}
                 {' • '}{result.warrantInfo.date}
+                {result.savedAt ? (
+                  <span className="text-slate-500 text-sm">
+                    {' • '}{result.format.name} format • archived {new Date(result.savedAt).toLocaleString('en-US')}
+                  </span>
+                ) : (
+                  <span className="text-slate-500 text-sm">
+                    {' • '}{result.format.name} format ({result.format.forced ? 'selected' : `detected, ${Math.round(result.format.score * 100)}% match`})
+                  </span>
+                )}
+                {result.extractionMethod && (
+                  <span className="text-slate-500 text-sm">
+                    {' • '}{result.extractionMethod === 'ocr' ? 'Extracted with OCR' : 'Read from PDF text layer'}
+                  </span>
+                )}
+                {result.format.layout && (
+                  <span className="text-slate-500 text-sm">{' • '}columns from word positions</span>
+                )}
+                {result.cached && (
+                  <span className="text-slate-500 text-sm">
+                    {' • '}<span className="text-primary-400">cached</span> from an earlier upload
+                  </span>
+                )}
+                {result.alreadyArchived && (
+                  <span className="text-slate-500 text-sm">
+                    {' • '}already archived;{' '}
+                    <Link href={`/?warrant=${result.archiveId}`} target="_blank" className="text-primary-400 hover:underline">
+                      open the archived copy
+                    </Link>
+                    {' '}for the edits saved on it
+                  </span>
+                )}
+                {selectedEntry?.file && (
+                  <button
+                    onClick={reparseSelected}
+                    disabled={processing}
+                    className="ml-2 text-sm text-primary-400 hover:text-primary-300 disabled:opacity-40 inline-flex items-center gap-1"
+                    title="Extract and parse this PDF again instead of using the cached result"
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" /> Re-parse
+                  </button>
+                )}
               </p>
+              <WarrantHeaderForm warrantInfo={result.warrantInfo} onConfirm={confirmHeader} />
             </div>
 
             {/* Stats Grid */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
               <div className="bg-slate-700/50 rounded-lg p-4 text-center">
-                <div className="text-3xl font-bold text-primary-400">{result.data.length}</div>
+                <div className="text-3xl font-bold text-primary-400">{items.length}</div>
                 <div className="text-slate-500 text-sm uppercase mt-1">Line Items</div>
               </div>
               <div className="bg-slate-700/50 rounded-lg p-4 text-center">
                 <div className="text-3xl font-bold text-primary-400">
-                  {new Set(result.data.map(d => d.vendorName)).size}
+                  {new Set(items.map(d => d.vendorCode.trim() || d.vendorName)).size}
                 </div>
                 <div className="text-slate-500 text-sm uppercase mt-1">Vendors</div>
               </div>
               <div className="bg-slate-700/50 rounded-lg p-4 text-center">
                 <div className="text-3xl font-bold text-primary-400">
-                  {new Set(result.data.filter(d => d.check).map(d => d.check)).size}
+                  {new Set(items.filter(d => d.check).map(d => d.check)).size}
                 </div>
                 <div className="text-slate-500 text-sm uppercase mt-1">Checks</div>
               </div>
               <div className="bg-slate-700/50 rounded-lg p-4 text-center">
                 <div className="text-2xl font-bold text-green-400">
-                  ${result.total.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                  ${total.toLocaleString('en-US', { minimumFractionDigits: 2 })}
                 </div>
                 <div className="text-slate-500 text-sm uppercase mt-1">Total Amount</div>
               </div>
             </div>
 
-            {/* Data Table */}
-            <div className="overflow-x-auto rounded-lg border border-slate-700">
-              <table className="w-full text-sm">
-                <thead className="bg-slate-700">
-                  <tr>
-                    <th className="px-4 py-3 text-left text-primary-400">Vendor Code</th>
-                    <th className="px-4 py-3 text-left text-primary-400">Vendor Name</th>
-                    <th className="px-4 py-3 text-left text-primary-400">Check #</th>
-                    <th className="px-4 py-3 text-left text-primary-400">Description</th>
-                    <th className="px-4 py-3 text-left text-primary-400">Account</th>
-                    <th className="px-4 py-3 text-left text-primary-400">Department</th>
-                    <th className="px-4 py-3 text-right text-primary-400">Amount</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {result.data.map((item, idx) => (
-                    <tr key={idx} className="border-t border-slate-700/50 hover:bg-slate-700/30">
-                      <td className="px-4 py-3 font-mono text-slate-400">{item.vendorCode}</td>
-                      <td className="px-4 py-3">{item.vendorName}</td>
-                      <td className="px-4 py-3 font-mono">{item.check}</td>
-                      <td className="px-4 py-3 text-slate-400">{item.description}</td>
-                      <td className="px-4 py-3 font-mono text-slate-400">{item.account}</td>
-                      <td className="px-4 py-3 text-slate-400 text-xs">{item.deptCategory}</td>
-                      <td className="px-4 py-3 text-right font-mono">
-                        ${item.amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+            {/* Account Codes */}
+            {unknownCodes.length > 0 && (
+              <div className="bg-amber-500/10 border-l-4 border-amber-500 p-4 rounded-r mb-6 flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                <p className="text-amber-400">
+                  {unknownCodes.length} account code{unknownCodes.length === 1 ? ' is' : 's are'} not in
+                  the {chart!.municipality} chart of accounts:{' '}
+                  <span className="font-mono">{unknownCodes.join(', ')}</span>
+                </p>
+              </div>
+            )}
+
+            {/* Review */}
+            {reviewFlags.length > 0 && (
+              <div className="bg-orange-500/10 border-l-4 border-orange-500 p-4 rounded-r mb-6 flex items-start gap-3">
+                <Flag className="w-5 h-5 text-orange-500 flex-shrink-0 mt-0.5" />
+                <p className="text-orange-300">
+                  {flaggedRows} line item{flaggedRows === 1 ? '' : 's'} flagged
+                  for review: possible duplicates, round or unusually large amounts, or vendor name changes.
+                  Flagged rows are marked in the table and listed on the Review sheet of the download.
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2 mb-4">
+              {(budgetComparison ? ['items', 'checks', 'budget'] as const : ['items', 'checks'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    option === view ? 'bg-primary-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {VIEW_LABELS[option]}
+                  {option === 'checks' && checkRegister.issues.length > 0 && (
+                    <span className="ml-2 text-amber-400">({checkRegister.issues.length})</span>
+                  )}
+                </button>
+              ))}
             </div>
+
+            {view === 'checks' ? (
+              <CheckRegisterView register={checkRegister} />
+            ) : budgetComparison && view === 'budget' ? (
+              <BudgetView comparison={budgetComparison} onThresholdChange={setBudgetThreshold} />
+            ) : (
+              <ResultsGrid
+                rows={editor.rows}
+                reviewFlags={reviewFlags}
+                chart={chart}
+                onEditCell={editor.editCell}
+                onInsertRow={editor.insertRow}
+                onDeleteRow={editor.deleteRow}
+              />
+            )}
           </div>
         )}
 
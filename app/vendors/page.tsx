@@ -0,0 +1,254 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, Check, GitMerge, Pencil, Users, X } from 'lucide-react'
+import AppNav from '@/components/AppNav'
+import { VENDOR_MATCH_THRESHOLD, vendorSimilarity } from '@/lib/vendors'
+import type { VendorMaster, VendorMasterSummary, VendorRecord } from '@/lib/types'
+
+// Codes of other vendors whose names look like OCR variants of this one's,
+// as merge candidates
+function similarVendors(vendors: VendorRecord[]): Map<string, string[]> {
+  const similar = new Map<string, string[]>()
+  vendors.forEach((vendor, index) => {
+    vendors.slice(index + 1).forEach(other => {
+      if (vendorSimilarity(vendor.name, other.name) < VENDOR_MATCH_THRESHOLD) return
+      similar.set(vendor.code, [...(similar.get(vendor.code) || []), other.code])
+      similar.set(other.code, [...(similar.get(other.code) || []), vendor.code])
+    })
+  })
+  return similar
+}
+
+export default function VendorsPage() {
+  const [masters, setMasters] = useState<VendorMasterSummary[] | null>(null)
+  const [master, setMaster] = useState<VendorMaster | null>(null)
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [mergeInto, setMergeInto] = useState('')
+  const [renaming, setRenaming] = useState<{ code: string, name: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/vendors')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setMasters(data.masters)
+          if (data.masters.length > 0) viewMaster(data.masters[0].municipality)
+        } else {
+          setError(data.error || 'Could not load vendor masters')
+        }
+      })
+  }, [])
+
+  const viewMaster = async (municipality: string) => {
+    const response = await fetch(`/api/vendors/${encodeURIComponent(municipality)}`)
+    const data = await response.json()
+    if (data.success) {
+      setMaster(data.master)
+      setSelected(new Set())
+      setRenaming(null)
+    } else {
+      setError(data.error || 'Could not load vendor master')
+    }
+  }
+
+  const update = async (change: object) => {
+    if (!master) return
+    setError(null)
+    const response = await fetch(`/api/vendors/${encodeURIComponent(master.municipality)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(change),
+    })
+    const data = await response.json()
+    if (data.success) {
+      setMaster(data.master)
+      setSelected(new Set())
+      setRenaming(null)
+    } else {
+      setError(data.error || 'Could not update vendor master')
+    }
+  }
+
+  const toggleSelected = (code: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(code)) {
+        next.delete(code)
+      } else {
+        next.add(code)
+      }
+      return next
+    })
+  }
+
+  const similar = useMemo(() => similarVendors(master?.vendors ?? []), [master])
+  const query = filter.toLowerCase()
+  const visibleVendors = (master?.vendors ?? []).filter(vendor => !query
+    || vendor.code.includes(query)
+    || Object.keys(vendor.variants).some(name => name.toLowerCase().includes(query))
+    || vendor.name.toLowerCase().includes(query))
+  const selectedVendors = (master?.vendors ?? []).filter(vendor => selected.has(vendor.code))
+  const target = selected.has(mergeInto) ? mergeInto : selectedVendors[0]?.code ?? ''
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-primary-400 flex items-center justify-center gap-3">
+            <Users className="w-10 h-10" />
+            Vendor Master
+          </h1>
+          <p className="text-slate-400 mt-2">
+            Canonical vendor names by code, learned from warrants saved with a confirmed header
+          </p>
+          <AppNav />
+        </header>
+
+        {error && (
+          <div className="mb-6 bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {masters && masters.length === 0 && (
+          <p className="text-center text-slate-500">
+            No vendors yet. Confirm a warrant&apos;s header and save it to the archive to start the vendor master.
+          </p>
+        )}
+
+        {master && (
+          <div className="bg-slate-800/50 rounded-2xl p-8 backdrop-blur">
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+              {masters && masters.length > 1 ? (
+                <select
+                  value={master.municipality}
+                  onChange={(e) => viewMaster(e.target.value)}
+                  className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100"
+                >
+                  {masters.map(entry => (
+                    <option key={entry.municipality} value={entry.municipality}>{entry.municipality}</option>
+                  ))}
+                </select>
+              ) : (
+                <h2 className="text-xl font-bold text-primary-400">{master.municipality}</h2>
+              )}
+              <span className="text-slate-400 text-sm">{master.vendors.length} vendors</span>
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter"
+                className="ml-auto bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-slate-100 text-sm"
+              />
+            </div>
+
+            {selectedVendors.length > 1 && (
+              <div className="mb-4 flex flex-wrap items-center gap-3 bg-slate-700/50 rounded-lg px-4 py-3 text-sm">
+                <span className="text-slate-300">Merge {selectedVendors.length} vendors into</span>
+                <select
+                  value={target}
+                  onChange={(e) => setMergeInto(e.target.value)}
+                  className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-slate-100"
+                >
+                  {selectedVendors.map(vendor => (
+                    <option key={vendor.code} value={vendor.code}>{vendor.code} {vendor.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => update({ merge: { into: target, codes: Array.from(selected) } })}
+                  className="bg-primary-500 hover:bg-primary-600 px-4 py-1.5 rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  <GitMerge className="w-4 h-4" />
+                  Merge
+                </button>
+                <button onClick={() => setSelected(new Set())} className="text-slate-400 hover:text-slate-200">
+                  Clear
+                </button>
+              </div>
+            )}
+
+            <div className="overflow-x-auto rounded-lg border border-slate-700 max-h-[40rem] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-700 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-3 w-8"></th>
+                    <th className="px-4 py-3 text-left text-primary-400">Code</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Name</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Spellings Seen</th>
+                    <th className="px-4 py-3 text-left text-primary-400">Merged Codes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleVendors.map(vendor => (
+                    <tr key={vendor.code} className="border-t border-slate-700/50 hover:bg-slate-700/30 align-top">
+                      <td className="px-4 py-2">
+                        <input type="checkbox" checked={selected.has(vendor.code)} onChange={() => toggleSelected(vendor.code)} />
+                      </td>
+                      <td className="px-4 py-2 font-mono">{vendor.code}</td>
+                      <td className="px-4 py-2">
+                        {renaming?.code === vendor.code ? (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault()
+                              update({ rename: renaming })
+                            }}
+                            className="flex items-center gap-2"
+                          >
+                            <input
+                              autoFocus
+                              value={renaming.name}
+                              onChange={(e) => setRenaming({ code: vendor.code, name: e.target.value })}
+                              className="flex-1 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-slate-100"
+                            />
+                            <button type="submit" title="Save name" className="text-green-400 hover:text-green-300">
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button type="button" onClick={() => setRenaming(null)} title="Cancel" className="text-slate-400 hover:text-slate-200">
+                              <X className="w-4 h-4" />
+                            </button>
+                          </form>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span>{vendor.name}</span>
+                            {vendor.renamed && <span className="text-xs text-slate-500">renamed</span>}
+                            <button
+                              onClick={() => setRenaming({ code: vendor.code, name: vendor.name })}
+                              title="Rename"
+                              className="text-slate-500 hover:text-primary-400"
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                        {similar.has(vendor.code) && (
+                          <div className="text-xs text-amber-400 mt-1">
+                            Similar to {similar.get(vendor.code)!.join(', ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-slate-400">
+                        {Object.entries(vendor.variants)
+                          .sort((a, b) => b[1] - a[1])
+                          .map(([name, count]) => (
+                            <div key={name}>
+                              {name}
+                              <span className="text-slate-500 text-xs ml-2">{count > 0 ? `${count} warrant${count === 1 ? '' : 's'}` : 'OCR'}</span>
+                            </div>
+                          ))}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-slate-400">{vendor.mergedCodes.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,262 @@
+// Parses warrant PDFs or extracted text files and writes an export file for
+// each, using the same parser and export code as the app. Build with
+// `npm run build:cli`, then run `npm run warrant -- --help`.
+import { promises as fs } from 'fs'
+import path from 'path'
+import { buildWarrantExport } from '../lib/export/build'
+import { EXPORT_FORMATS, getExportFormat } from '../lib/export/formats'
+import type { ExportFormat } from '../lib/export/formats'
+import { checkParsedItems, parsePdf } from '../lib/parsePdf'
+import type { ParseFailure, ParsedPdf } from '../lib/parsePdf'
+import { getWarrantFormat, parseWarrant } from '../lib/parser'
+
+const USAGE = `Usage: warrant [options] <file or directory>...
+
+Parses A/P warrant PDFs (.pdf) or extracted text (.txt) and writes one
+export file per warrant. Directories are searched recursively.
+
+Options:
+  -f, --format <id>   Output format: ${EXPORT_FORMATS.map(format => format.id).join(', ')} (default xlsx)
+  -o, --out <dir>     Output directory, mirroring the folders under each
+                      input directory (default: next to each input file)
+  -p, --parser <id>   Parse with this warrant layout instead of detecting it
+      --force         Ignore cached OCR text and parse results
+      --archive       Save parsed PDFs to the warrant archive; PDFs archived
+                      before keep their entry and the edits saved on it
+      --replace-archived
+                      With --archive, replace those entries with the new parse
+  -h, --help          Show this help
+
+Exits with 1 when any file fails, has no line items or doesn't balance
+against its printed totals, and 2 for usage errors.`
+
+const INPUT_EXTENSIONS = ['.pdf', '.txt']
+const STATUS_WIDTH = 11
+
+interface CliOptions {
+  format: ExportFormat
+  outDir?: string
+  formatId?: string
+  force: boolean
+  archive: boolean
+  replaceArchived: boolean
+  inputs: string[]
+}
+
+interface InputFile {
+  file: string
+  // Its folder under the directory given on the command line, which --out
+  // mirrors; '' for files given directly
+  subdir: string
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const options: CliOptions = { format: getExportFormat('xlsx')!, force: false, archive: false, replaceArchived: false, inputs: [] }
+  const value = (flag: string) => {
+    const next = args.shift()
+    if (!next) throw new UsageError(`${flag} needs a value`)
+    return next
+  }
+
+  while (args.length > 0) {
+    const arg = args.shift()!
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return null
+      case '-f':
+      case '--format': {
+        const id = value(arg)
+        const format = getExportFormat(id)
+        if (!format) throw new UsageError(`Unknown format "${id}"`)
+        options.format = format
+        break
+      }
+      case '-o':
+      case '--out':
+        options.outDir = value(arg)
+        break
+      case '-p':
+      case '--parser': {
+        const id = value(arg)
+        if (!getWarrantFormat(id)) throw new UsageError(`Unknown warrant format "${id}"`)
+        options.formatId = id
+        break
+      }
+      case '--force':
+        options.force = true
+        break
+      case '--archive':
+        options.archive = true
+        break
+      case '--replace-archived':
+        options.replaceArchived = true
+        break
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`)
+        options.inputs.push(arg)
+    }
+  }
+
+  if (options.replaceArchived && !options.archive) throw new UsageError('--replace-archived needs --archive')
+  if (options.inputs.length === 0) throw new UsageError('No input files given')
+  return options
+}
+
+// Input files in the order given, with directories expanded in name order
+async function collectInputs(inputs: string[], subdir = '', nested = false): Promise<InputFile[]> {
+  const files: InputFile[] = []
+  for (const input of inputs) {
+    const stat = await fs.stat(input)
+    if (!stat.isDirectory()) {
+      files.push({ file: input, subdir })
+      continue
+    }
+    const entries = await fs.readdir(input, { withFileTypes: true })
+    const children = entries
+      .filter(entry => entry.isDirectory() || INPUT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+      .map(entry => path.join(input, entry.name))
+      .sort()
+    files.push(...await collectInputs(children, nested ? path.join(subdir, path.basename(input)) : subdir, true))
+  }
+  return files
+}
+
+// Text files skip extraction, caching and the archive
+async function parseTextFile(file: string, formatId?: string): Promise<ParsedPdf | ParseFailure> {
+  const text = await fs.readFile(file, 'utf8')
+  const { warrantInfo, controlTotals, format, formatScores, ...outcome } = parseWarrant(text, formatId)
+  if (outcome.items.length === 0) {
+    return { success: false, error: 'Could not parse warrant data. The text format may not be supported.', format, formatScores }
+  }
+
+  const { items, ...checked } = await checkParsedItems({ items: outcome.items, warrantInfo, controlTotals })
+  return {
+    success: true,
+    data: items,
+    warrantInfo,
+    ...checked,
+    controlTotals,
+    extractionMethod: 'text-layer',
+    format,
+    formatScores,
+    alreadyArchived: false,
+    cached: false,
+  }
+}
+
+function money(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+// Returns whether the file parsed and balanced. written maps each output
+// file to the input it belongs to, so two inputs with the same name, such as
+// x.pdf and x.txt, can't overwrite each other's export.
+async function processFile({ file, subdir }: InputFile, options: CliOptions, written: Map<string, string>): Promise<boolean> {
+  const name = path.basename(file)
+  const outDir = options.outDir ? path.join(options.outDir, subdir) : path.dirname(file)
+  const outFile = path.join(outDir, `${path.basename(file, path.extname(file))}.${options.format.extension}`)
+  const claimed = written.get(path.resolve(outFile))
+  if (claimed) {
+    process.stdout.write(`${'FAIL'.padEnd(STATUS_WIDTH)}${name}: ${outFile} is already the export of ${claimed}\n`)
+    return false
+  }
+  written.set(path.resolve(outFile), file)
+
+  let result: ParsedPdf | ParseFailure
+  try {
+    if (path.extname(file).toLowerCase() === '.pdf') {
+      const data = await fs.readFile(file)
+      const arrayBuffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+      result = await parsePdf(arrayBuffer, name, {
+        formatId: options.formatId,
+        force: options.force,
+        archive: options.archive,
+        replaceArchived: options.replaceArchived,
+      })
+    } else {
+      result = await parseTextFile(file, options.formatId)
+    }
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : 'Failed to parse' }
+  }
+
+  if (!result.success) {
+    process.stdout.write(`${'FAIL'.padEnd(STATUS_WIDTH)}${name}: ${result.error}\n`)
+    return false
+  }
+
+  const { data, warrantInfo, total, reconciliation } = result
+  const status = reconciliation.checked === 0 ? 'UNVERIFIED' : reconciliation.balanced ? 'OK' : 'UNBALANCED'
+  const indent = ' '.repeat(STATUS_WIDTH)
+  process.stdout.write(
+    `${status.padEnd(STATUS_WIDTH)}${name}: ${warrantInfo.municipality} warrant #${warrantInfo.warrantNumber} ${warrantInfo.date}, ` +
+    `${data.length} items, $${money(total)}, ${reconciliation.checked - reconciliation.mismatches.length} of ${reconciliation.checked} totals match` +
+    `${result.cached ? ' (cached)' : ''}\n`,
+  )
+  reconciliation.mismatches.forEach(entry => {
+    process.stdout.write(`${indent}${entry.label}: printed ${money(entry.printed)}, parsed ${money(entry.parsed)}, difference ${money(entry.difference)}\n`)
+  })
+  result.accountWarnings.forEach(warning => process.stdout.write(`${indent}${warning}\n`))
+  if (result.alreadyArchived) {
+    process.stdout.write(`${indent}already archived; kept the archived entry (--replace-archived replaces it)\n`)
+  }
+
+  // A file that can't be exported fails on its own; the batch carries on
+  try {
+    const content = await buildWarrantExport({ data, warrantInfo, total, archiveId: result.archiveId }, options.format)
+    await fs.mkdir(outDir, { recursive: true })
+    await fs.writeFile(outFile, content)
+  } catch (error) {
+    process.stdout.write(`${indent}could not write ${outFile}: ${error instanceof Error ? error.message : error}\n`)
+    return false
+  }
+  process.stdout.write(`${indent}wrote ${outFile}\n`)
+
+  return reconciliation.balanced
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions | null
+  try {
+    options = parseArgs(process.argv.slice(2))
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error
+    process.stderr.write(`${error.message}\n\n${USAGE}\n`)
+    return 2
+  }
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`)
+    return 0
+  }
+
+  let files: InputFile[]
+  try {
+    files = await collectInputs(options.inputs)
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`)
+    return 2
+  }
+  if (files.length === 0) {
+    process.stderr.write('No .pdf or .txt files found\n')
+    return 1
+  }
+
+  let passed = 0
+  const written = new Map<string, string>()
+  for (const file of files) {
+    if (await processFile(file, options, written)) passed++
+  }
+  process.stdout.write(`\n${files.length} file${files.length === 1 ? '' : 's'}: ${passed} balanced, ${files.length - passed} failed or out of balance\n`)
+  return passed === files.length ? 0 : 1
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error)
+    process.exit(1)
+  },
+)
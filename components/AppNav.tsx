@@ -0,0 +1,31 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { Archive, BarChart3, BookOpen, FileText, PiggyBank, Receipt, Users } from 'lucide-react'
+
+const NAV_LINKS = [
+  { href: '/', label: 'Parse Warrants', icon: FileText },
+  { href: '/archive', label: 'Warrant Archive', icon: Archive },
+  { href: '/analytics', label: 'Spending Analytics', icon: BarChart3 },
+  { href: '/charts', label: 'Chart of Accounts', icon: BookOpen },
+  { href: '/vendors', label: 'Vendors', icon: Users },
+  { href: '/budgets', label: 'Budgets', icon: PiggyBank },
+  { href: '/form1099', label: '1099 Vendors', icon: Receipt },
+]
+
+// Links between the app's pages, shown under each page title
+export default function AppNav() {
+  const pathname = usePathname()
+
+  return (
+    <nav className="mt-4 flex justify-center gap-4 text-sm">
+      {NAV_LINKS.filter(link => link.href !== pathname).map(({ href, label, icon: Icon }) => (
+        <Link key={href} href={href} className="text-slate-400 hover:text-primary-400 flex items-center gap-1">
+          <Icon className="w-4 h-4" />
+          {label}
+        </Link>
+      ))}
+    </nav>
+  )
+}
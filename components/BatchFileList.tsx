@@ -0,0 +1,82 @@
+'use client'
+
+import { FileText, Loader2, AlertCircle, CheckCircle2, Clock, X } from 'lucide-react'
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'error'
+
+export interface BatchFile {
+  id: number
+  name: string
+  size: number
+  status: BatchStatus
+  message: string
+}
+
+interface BatchFileListProps {
+  files: BatchFile[]
+  selectedId: number | null
+  onSelect: (id: number) => void
+  onRemove: (id: number) => void
+  // Stops a file that is processing
+  onCancel?: (id: number) => void
+}
+
+const STATUS_ICONS = {
+  pending: <Clock className="w-5 h-5 text-slate-500" />,
+  processing: <Loader2 className="w-5 h-5 text-primary-400 animate-spin" />,
+  done: <CheckCircle2 className="w-5 h-5 text-green-500" />,
+  error: <AlertCircle className="w-5 h-5 text-red-500" />,
+}
+
+// Per-file status for a batch; finished files can be opened in the results grid
+export default function BatchFileList({ files, selectedId, onSelect, onRemove, onCancel }: BatchFileListProps) {
+  return (
+    <ul className="divide-y divide-slate-700/50 bg-slate-700/30 rounded-lg">
+      {files.map(entry => (
+        <li
+          key={entry.id}
+          onClick={() => entry.status === 'done' && onSelect(entry.id)}
+          className={`flex items-center gap-3 p-3 ${entry.status === 'done' ? 'cursor-pointer hover:bg-slate-700/50' : ''} ${
+            entry.id === selectedId ? 'bg-primary-500/10' : ''
+          }`}
+        >
+          {STATUS_ICONS[entry.status]}
+          <FileText className="w-5 h-5 text-primary-400 flex-shrink-0" />
+          <span className="truncate">{entry.name}</span>
+          {entry.size > 0 && (
+            <span className="text-slate-500 text-sm whitespace-nowrap">
+              ({(entry.size / 1024 / 1024).toFixed(2)} MB)
+            </span>
+          )}
+          <span className={`ml-auto text-sm text-right ${entry.status === 'error' ? 'text-red-400' : 'text-slate-400'}`}>
+            {entry.message}
+          </span>
+          {entry.status === 'processing' && onCancel && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onCancel(entry.id)
+              }}
+              className="text-slate-500 hover:text-red-400"
+              title="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          {entry.status !== 'processing' && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onRemove(entry.id)
+              }}
+              className="text-slate-500 hover:text-red-400"
+              title="Remove from batch"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { BUDGET_STATUS_LABELS } from '@/lib/budget'
+import type { BudgetComparison } from '@/lib/types'
+
+interface BudgetViewProps {
+  comparison: BudgetComparison
+  onThresholdChange: (threshold: number) => void
+}
+
+function formatMoney(amount: number): string {
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+const STATUS_ROW_CLASSES = {
+  ok: 'hover:bg-slate-700/30',
+  near: 'bg-amber-500/10 hover:bg-amber-500/20',
+  over: 'bg-red-500/10 hover:bg-red-500/20',
+}
+
+const STATUS_TEXT_CLASSES = {
+  ok: 'text-slate-400',
+  near: 'text-amber-400',
+  over: 'text-red-400',
+}
+
+// Budget vs actual per account code for the open warrant
+export default function BudgetView({ comparison, onThresholdChange }: BudgetViewProps) {
+  const [showAll, setShowAll] = useState(false)
+  const { lines, totals } = comparison
+  const visible = showAll ? lines : lines.filter(line => line.spent !== 0)
+  const overCount = lines.filter(line => line.status === 'over').length
+  const nearCount = lines.filter(line => line.status === 'near').length
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4 text-sm">
+        <p className="text-slate-400">
+          {comparison.municipality} fiscal year {comparison.fiscalYear} • year-to-date includes{' '}
+          {comparison.priorWarrants} earlier warrant{comparison.priorWarrants === 1 ? '' : 's'}
+          {overCount > 0 && <span className="text-red-400"> • {overCount} over budget</span>}
+          {nearCount > 0 && <span className="text-amber-400"> • {nearCount} at or above {comparison.threshold}%</span>}
+        </p>
+        <div className="flex items-center gap-4">
+          <label className="text-slate-400 flex items-center gap-2">
+            Flag at
+            <input
+              type="number"
+              min={1}
+              max={100}
+              defaultValue={comparison.threshold}
+              onBlur={(e) => {
+                const value = parseFloat(e.target.value)
+                if (!isNaN(value) && value !== comparison.threshold) onThresholdChange(value)
+              }}
+              className="w-16 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-slate-100"
+            />
+            % used
+          </label>
+          <label className="text-slate-400 flex items-center gap-2">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            All budget accounts
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-slate-700">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-primary-400">Account</th>
+              <th className="px-4 py-3 text-left text-primary-400">Description</th>
+              <th className="px-4 py-3 text-right text-primary-400">Budgeted</th>
+              <th className="px-4 py-3 text-right text-primary-400">This Warrant</th>
+              <th className="px-4 py-3 text-right text-primary-400">Year-to-Date</th>
+              <th className="px-4 py-3 text-right text-primary-400">Remaining</th>
+              <th className="px-4 py-3 text-right text-primary-400">% Used</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(line => (
+              <tr key={line.account} className={`border-t border-slate-700/50 ${STATUS_ROW_CLASSES[line.status]}`}>
+                <td className="px-4 py-2 font-mono">{line.account}</td>
+                <td className="px-4 py-2 text-slate-400">
+                  {line.description}
+                  {line.budgeted === 0 && <span className="text-red-400 text-xs ml-1">(no budget)</span>}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">{formatMoney(line.budgeted)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatMoney(line.spent)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatMoney(line.yearToDate)}</td>
+                <td className={`px-4 py-2 text-right font-mono ${line.remaining < 0 ? 'text-red-400' : ''}`}>
+                  {formatMoney(line.remaining)}
+                </td>
+                <td className={`px-4 py-2 text-right font-mono ${STATUS_TEXT_CLASSES[line.status]}`} title={BUDGET_STATUS_LABELS[line.status]}>
+                  {line.percentUsed === null ? '—' : `${line.percentUsed.toFixed(1)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-700/50 font-bold">
+            <tr>
+              <td colSpan={2} className="px-4 py-3 text-right">TOTAL (all accounts):</td>
+              <td className="px-4 py-3 text-right font-mono">{formatMoney(totals.budgeted)}</td>
+              <td className="px-4 py-3 text-right font-mono">{formatMoney(totals.spent)}</td>
+              <td className="px-4 py-3 text-right font-mono">{formatMoney(totals.yearToDate)}</td>
+              <td className="px-4 py-3 text-right font-mono">{formatMoney(totals.remaining)}</td>
+              <td className="px-4 py-3 text-right font-mono">
+                {totals.budgeted ? `${((totals.yearToDate / totals.budgeted) * 100).toFixed(1)}%` : '—'}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { CHECK_ISSUE_LABELS } from '@/lib/checkRegister'
+import { PAYMENT_TYPE_LABELS } from '@/lib/paymentTypes'
+import type { CheckRegister } from '@/lib/types'
+
+interface CheckRegisterViewProps {
+  register: CheckRegister
+}
+
+function formatMoney(amount: number): string {
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+// One row per check on the open warrant, for reconciling against the bank
+// statement, with sequence gaps and odd checks listed above the table
+export default function CheckRegisterView({ register }: CheckRegisterViewProps) {
+  const { checks, issues, unnumbered } = register
+  const issuesFor = (check: string, paymentType: string) =>
+    issues.filter(issue => issue.check === check && issue.paymentType === paymentType)
+
+  return (
+    <div>
+      {issues.length > 0 && (
+        <div className="bg-amber-500/10 border-l-4 border-amber-500 p-4 rounded-r mb-4">
+          <ul className="space-y-1 text-sm text-amber-300">
+            {issues.map((issue, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                <span><strong>{CHECK_ISSUE_LABELS[issue.kind]}:</strong> {issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-slate-400 text-sm mb-4">
+        {checks.length} check{checks.length === 1 ? '' : 's'}
+        {unnumbered.length > 0 && (
+          <span className="text-amber-400">
+            {' • '}{unnumbered.length} line item{unnumbered.length === 1 ? ' has' : 's have'} no check number
+          </span>
+        )}
+      </p>
+
+      <div className="overflow-x-auto rounded-lg border border-slate-700">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-primary-400">Type</th>
+              <th className="px-4 py-3 text-left text-primary-400">Check #</th>
+              <th className="px-4 py-3 text-left text-primary-400">Payee</th>
+              <th className="px-4 py-3 text-left text-primary-400">Vendor Code</th>
+              <th className="px-4 py-3 text-right text-primary-400">Lines</th>
+              <th className="px-4 py-3 text-right text-primary-400">Check Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {checks.map(entry => {
+              const checkIssues = issuesFor(entry.check, entry.paymentType)
+              return (
+                <tr
+                  key={`${entry.paymentType}:${entry.check}`}
+                  className={`border-t border-slate-700/50 ${checkIssues.length > 0 ? 'bg-amber-500/10 hover:bg-amber-500/20' : 'hover:bg-slate-700/30'}`}
+                >
+                  <td className="px-4 py-2 text-slate-400">{PAYMENT_TYPE_LABELS[entry.paymentType]}</td>
+                  <td className="px-4 py-2 font-mono">
+                    {entry.check}
+                    {checkIssues.length > 0 && (
+                      <span title={checkIssues.map(issue => issue.message).join('\n')}>
+                        <AlertTriangle className="w-4 h-4 text-amber-500 inline ml-2" />
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{entry.payee}</td>
+                  <td className="px-4 py-2 font-mono text-slate-400">{entry.vendorCodes.join(', ')}</td>
+                  <td className="px-4 py-2 text-right font-mono">{entry.lineCount}</td>
+                  <td className="px-4 py-2 text-right font-mono">{formatMoney(entry.total)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+          <tfoot className="bg-slate-700/50 font-bold">
+            <tr>
+              <td colSpan={4} className="px-4 py-3 text-right">TOTAL:</td>
+              <td className="px-4 py-3 text-right font-mono">{checks.reduce((sum, entry) => sum + entry.lineCount, 0)}</td>
+              <td className="px-4 py-3 text-right font-mono">{formatMoney(register.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  )
+}
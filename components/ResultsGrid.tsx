@@ -0,0 +1,264 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import Link from 'next/link'
+import { ChevronRight, ChevronDown, Flag, Plus, Trash2 } from 'lucide-react'
+import { resolveAccount } from '@/lib/chartOfAccounts'
+import { LOW_CONFIDENCE_THRESHOLD } from '@/lib/parser/confidence'
+import { OCR_FIX_LABELS } from '@/lib/parser/misreads'
+import { PAYMENT_TYPES, PAYMENT_TYPE_LABELS } from '@/lib/paymentTypes'
+import { REVIEW_FLAG_LABELS } from '@/lib/review'
+import type { ChartOfAccounts, ReviewFlag } from '@/lib/types'
+import { FIELD_LABELS, formatFieldValue } from './useWarrantEditor'
+import type { EditableField, EditableRow } from './useWarrantEditor'
+
+interface Column {
+  field: EditableField
+  className: string
+}
+
+const COLUMNS: Column[] = [
+  { field: 'vendorCode', className: 'w-20 font-mono text-slate-400' },
+  { field: 'vendorName', className: 'min-w-[12rem]' },
+  { field: 'paymentType', className: 'w-24 text-slate-400' },
+  { field: 'journal', className: 'w-16 font-mono text-slate-400' },
+  { field: 'check', className: 'w-20 font-mono' },
+  { field: 'description', className: 'min-w-[10rem] text-slate-400' },
+  { field: 'account', className: 'w-28 font-mono text-slate-400' },
+  { field: 'deptCategory', className: 'min-w-[12rem] text-slate-400 text-xs' },
+  { field: 'amount', className: 'w-28 text-right font-mono' },
+  { field: 'encumbrance', className: 'w-24 text-right font-mono text-slate-400' },
+]
+
+interface ResultsGridProps {
+  rows: EditableRow[]
+  // Indexed by row position
+  reviewFlags: ReviewFlag[]
+  chart: ChartOfAccounts | null
+  onEditCell: (key: number, field: EditableField, value: string) => void
+  onInsertRow: (afterKey: number | null) => void
+  onDeleteRow: (key: number) => void
+}
+
+export default function ResultsGrid({ rows, reviewFlags, chart, onEditCell, onInsertRow, onDeleteRow }: ResultsGridProps) {
+  const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set())
+
+  const flagsByRow = new Map<number, ReviewFlag[]>()
+  reviewFlags.forEach(flag => {
+    flagsByRow.set(flag.index, [...(flagsByRow.get(flag.index) || []), flag])
+  })
+
+  const toggleRow = (key: number) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-slate-700">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-700">
+          <tr>
+            <th className="w-12"></th>
+            {COLUMNS.map(column => (
+              <th
+                key={column.field}
+                className={`px-2 py-3 text-primary-400 ${column.className.includes('text-right') ? 'text-right' : 'text-left'}`}
+              >
+                {FIELD_LABELS[column.field]}
+              </th>
+            ))}
+            <th className="px-2 py-3 text-right text-primary-400">Confidence</th>
+            <th className="w-16"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const { item } = row
+            const lowConfidence = item.confidence < LOW_CONFIDENCE_THRESHOLD
+            const flags = flagsByRow.get(index) || []
+            const resolved = chart && item.account ? resolveAccount(chart, item.account) : null
+            const expanded = expandedRows.has(row.key)
+            return (
+              <Fragment key={row.key}>
+                <tr
+                  className={`border-t border-slate-700/50 ${
+                    lowConfidence
+                      ? 'bg-amber-500/10 hover:bg-amber-500/20'
+                      : flags.length > 0 ? 'bg-orange-500/10 hover:bg-orange-500/20' : 'hover:bg-slate-700/30'
+                  }`}
+                >
+                  <td className="pl-3 text-slate-500 whitespace-nowrap">
+                    <button onClick={() => toggleRow(row.key)} title="Show source text">
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                    {flags.length > 0 && (
+                      <button
+                        onClick={() => toggleRow(row.key)}
+                        title={flags.map(flag => `${REVIEW_FLAG_LABELS[flag.kind]}: ${flag.message}`).join('\n')}
+                        className="text-orange-400 ml-1"
+                      >
+                        <Flag className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                  {COLUMNS.map(column => (
+                    <td key={column.field} className="px-1 py-1">
+                      <EditableCell
+                        value={formatFieldValue(item, column.field)}
+                        rawValue={column.field === 'paymentType' ? item.paymentType : undefined}
+                        field={column.field}
+                        edited={!row.original || formatFieldValue(row.original, column.field) !== formatFieldValue(item, column.field)}
+                        className={column.className}
+                        onCommit={value => onEditCell(row.key, column.field, value)}
+                      />
+                    </td>
+                  ))}
+                  <td className={`px-2 py-3 text-right font-mono ${lowConfidence ? 'text-amber-400' : 'text-slate-400'}`}>
+                    {row.original ? `${Math.round(item.confidence * 100)}%` : '—'}
+                  </td>
+                  <td className="px-2 whitespace-nowrap text-slate-500">
+                    <button onClick={() => onInsertRow(row.key)} title="Insert row below" className="hover:text-primary-400 p-1">
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onDeleteRow(row.key)} title="Delete row" className="hover:text-red-400 p-1">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+                {expanded && (
+                  <tr className="bg-slate-900/50">
+                    <td></td>
+                    <td colSpan={COLUMNS.length + 2} className="px-4 py-3">
+                      {flags.map((flag, flagIndex) => (
+                        <div key={flagIndex} className="text-orange-300 text-xs mb-2 flex items-center gap-2">
+                          <Flag className="w-3 h-3 flex-shrink-0" />
+                          <span>
+                            <strong>{REVIEW_FLAG_LABELS[flag.kind]}:</strong> {flag.message}
+                            {flag.warrantId && (
+                              <Link href={`/?warrant=${flag.warrantId}`} target="_blank" className="ml-2 text-primary-400 hover:underline">
+                                Open warrant
+                              </Link>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                      {item.ocrVendorName && item.ocrVendorName !== item.vendorName && (
+                        <div className="text-xs mb-2 text-slate-300">
+                          <span className="text-slate-500">Vendor name read as </span>
+                          {item.ocrVendorName}
+                          <span className="text-slate-500">; replaced from the vendor master</span>
+                        </div>
+                      )}
+                      {item.ocrFixes?.map((fix, fixIndex) => (
+                        <div key={fixIndex} className="text-xs mb-2 text-slate-300">
+                          <span className="text-slate-500">{FIELD_LABELS[fix.field]} read as </span>
+                          <span className="font-mono">{fix.read}</span>
+                          <span className="text-slate-500"> on line {fix.line}, corrected to </span>
+                          <span className="font-mono">{fix.fixed}</span>
+                          <span className="text-slate-500"> ({OCR_FIX_LABELS[fix.kind]}; the totals reconcile with it)</span>
+                        </div>
+                      ))}
+                      {chart && item.account && (
+                        <div className="text-xs mb-2">
+                          {resolved ? (
+                            <span className="text-slate-300">
+                              <span className="text-slate-500">Account {item.account}: </span>
+                              {[resolved.fund, resolved.department, resolved.function, resolved.object || resolved.description]
+                                .filter(Boolean)
+                                .join(' › ')}
+                              {!resolved.exact && <span className="text-amber-400"> (partial match)</span>}
+                            </span>
+                          ) : (
+                            <span className="text-amber-400">Account {item.account} is not in the chart of accounts</span>
+                          )}
+                        </div>
+                      )}
+                      {row.original ? (
+                        <>
+                          <div className="text-slate-500 text-xs mb-1">
+                            Page {item.source.page}, line{item.source.lineStart === item.source.lineEnd
+                              ? ` ${item.source.lineStart}`
+                              : `s ${item.source.lineStart}-${item.source.lineEnd}`}
+                          </div>
+                          <pre className="font-mono text-xs text-slate-300 whitespace-pre-wrap">{item.source.text}</pre>
+                        </>
+                      ) : (
+                        <div className="text-slate-500 text-xs">Added manually</div>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            )
+          })}
+        </tbody>
+      </table>
+      <button
+        onClick={() => onInsertRow(null)}
+        className="w-full border-t border-slate-700 py-2 text-slate-400 hover:text-primary-400 hover:bg-slate-700/30
+                   flex items-center justify-center gap-2 text-sm"
+      >
+        <Plus className="w-4 h-4" />
+        Add row
+      </button>
+    </div>
+  )
+}
+
+interface EditableCellProps {
+  value: string
+  rawValue?: string
+  field: EditableField
+  edited: boolean
+  className: string
+  onCommit: (value: string) => void
+}
+
+// Edits are kept locally and only committed on blur or Enter, so each
+// change lands in the correction log and undo history once
+function EditableCell({ value, rawValue, field, edited, className, onCommit }: EditableCellProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const markerClass = edited ? 'border-l-2 border-primary-400 bg-primary-500/10' : 'border-l-2 border-transparent'
+
+  if (field === 'paymentType') {
+    return (
+      <select
+        value={rawValue}
+        onChange={(e) => onCommit(e.target.value)}
+        className={`w-full bg-transparent rounded px-1 py-2 ${markerClass} ${className}`}
+      >
+        {PAYMENT_TYPES.map(type => (
+          <option key={type} value={type} className="bg-slate-800">{PAYMENT_TYPE_LABELS[type]}</option>
+        ))}
+      </select>
+    )
+  }
+
+  const commit = () => {
+    if (draft !== null && draft !== value) onCommit(draft)
+    setDraft(null)
+  }
+
+  return (
+    <input
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur()
+        if (e.key === 'Escape') setDraft(null)
+      }}
+      inputMode={field === 'amount' || field === 'encumbrance' ? 'decimal' : undefined}
+      className={`w-full bg-transparent rounded px-1 py-2 focus:bg-slate-900 focus:outline-none
+                  focus:ring-1 focus:ring-primary-500 ${markerClass} ${className}`}
+      title={edited ? 'Edited' : undefined}
+    />
+  )
+}
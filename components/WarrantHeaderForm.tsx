@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, CheckCircle2, Pencil } from 'lucide-react'
+import { fiscalYearOf, parseWarrantDate } from '@/lib/warrantDate'
+import type { WarrantHeaderField, WarrantInfo } from '@/lib/types'
+
+interface WarrantHeaderFormProps {
+  warrantInfo: WarrantInfo
+  onConfirm: (warrantInfo: WarrantInfo) => void
+}
+
+type Draft = Record<WarrantHeaderField, string>
+
+const FIELDS: { field: WarrantHeaderField, label: string, placeholder: string, width: string }[] = [
+  { field: 'municipality', label: 'Municipality / School Unit', placeholder: 'Town of Bradford', width: 'md:col-span-2' },
+  { field: 'warrantNumber', label: 'Warrant #', placeholder: '12', width: '' },
+  { field: 'date', label: 'Warrant Date', placeholder: 'MM/DD/YYYY', width: '' },
+  { field: 'period', label: 'Period', placeholder: '1-12', width: '' },
+  { field: 'fiscalYear', label: 'Fiscal Year', placeholder: 'YYYY', width: '' },
+]
+
+function toDraft(warrantInfo: WarrantInfo): Draft {
+  return {
+    municipality: warrantInfo.municipality,
+    warrantNumber: warrantInfo.warrantNumber,
+    date: warrantInfo.date,
+    period: warrantInfo.period ? String(warrantInfo.period) : '',
+    fiscalYear: warrantInfo.fiscalYear ? String(warrantInfo.fiscalYear) : '',
+  }
+}
+
+// What's wrong with the draft, or null when it can be confirmed
+function draftError(draft: Draft): string | null {
+  if (!draft.municipality.trim() || draft.municipality === 'Unknown') return 'Enter the municipality or school unit'
+  if (!/^\d+$/.test(draft.warrantNumber.trim())) return 'The warrant number should be a number'
+  if (!/^\d{2}\/\d{2}\/\d{4}$/.test(draft.date.trim()) || !parseWarrantDate(draft.date.trim())) return 'Enter the date as MM/DD/YYYY'
+  const period = parseInt(draft.period, 10)
+  if (draft.period.trim() && !(period >= 1 && period <= 12)) return 'The period should be 1 to 12'
+  if (!/^\d{4}$/.test(draft.fiscalYear.trim())) return 'Enter a four-digit fiscal year'
+  return null
+}
+
+// The warrant header as parsed, for the user to check and correct before
+// export. Values the parser guessed are highlighted until confirmed.
+export default function WarrantHeaderForm({ warrantInfo, onConfirm }: WarrantHeaderFormProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(warrantInfo))
+  const [editing, setEditing] = useState(false)
+
+  useEffect(() => {
+    setDraft(toDraft(warrantInfo))
+    setEditing(false)
+  }, [warrantInfo])
+
+  const uncertain = new Set(warrantInfo.confirmed ? [] : warrantInfo.uncertain || [])
+  const needsConfirmation = uncertain.size > 0
+  const error = draftError(draft)
+
+  const setField = (field: WarrantHeaderField, value: string) => {
+    setDraft(prev => {
+      const next = { ...prev, [field]: value }
+      // A new date moves the fiscal year with it unless that was changed too
+      const date = field === 'date' ? parseWarrantDate(value.trim()) : null
+      if (date && prev.fiscalYear === toDraft(warrantInfo).fiscalYear) next.fiscalYear = String(fiscalYearOf(date))
+      return next
+    })
+  }
+
+  const confirm = () => {
+    if (error) return
+    const period = parseInt(draft.period, 10)
+    onConfirm({
+      ...warrantInfo,
+      municipality: draft.municipality.replace(/\s+/g, ' ').trim(),
+      warrantNumber: draft.warrantNumber.trim(),
+      date: draft.date.trim(),
+      period: period || undefined,
+      fiscalYear: parseInt(draft.fiscalYear, 10),
+      uncertain: [],
+      confirmed: true,
+    })
+  }
+
+  if (!editing && !needsConfirmation) {
+    return (
+      <div className="flex items-center gap-2 text-sm mt-2">
+        <span className="text-slate-400">
+          {warrantInfo.period ? `Period ${warrantInfo.period}` : 'No period'}
+          {' • '}{warrantInfo.fiscalYear ? `Fiscal Year ${warrantInfo.fiscalYear}` : 'No fiscal year'}
+        </span>
+        {warrantInfo.confirmed && (
+          <span className="text-green-400 flex items-center gap-1">
+            <CheckCircle2 className="w-4 h-4" /> Header confirmed
+          </span>
+        )}
+        <button
+          onClick={() => setEditing(true)}
+          className="text-primary-400 hover:text-primary-300 flex items-center gap-1"
+          title="Edit the warrant header"
+        >
+          <Pencil className="w-4 h-4" /> Edit header
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-4">
+      {needsConfirmation && (
+        <p className="text-amber-400 text-sm mb-3 flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          Check the highlighted header fields; they couldn&apos;t be read with certainty. Confirm the header before exporting.
+        </p>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        {FIELDS.map(({ field, label, placeholder, width }) => (
+          <label key={field} className={`text-xs text-slate-400 ${width}`}>
+            {label}
+            <input
+              value={draft[field]}
+              placeholder={placeholder}
+              onChange={(e) => setField(field, e.target.value)}
+              className={`mt-1 w-full bg-slate-700 border rounded px-2 py-1 text-sm text-slate-100 ${
+                uncertain.has(field) ? 'border-amber-500' : 'border-slate-600'
+              }`}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 mt-3">
+        <button
+          onClick={confirm}
+          disabled={!!error}
+          className="bg-primary-500 hover:bg-primary-600 disabled:opacity-40 px-4 py-1.5 rounded-lg text-sm
+                   font-medium transition-colors flex items-center gap-2"
+        >
+          <CheckCircle2 className="w-4 h-4" />
+          Confirm header
+        </button>
+        {editing && !needsConfirmation && (
+          <button
+            onClick={() => {
+              setDraft(toDraft(warrantInfo))
+              setEditing(false)
+            }}
+            className="text-slate-400 hover:text-slate-200 text-sm"
+          >
+            Cancel
+          </button>
+        )}
+        {error && <span className="text-slate-500 text-sm">{error}</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { PAYMENT_TYPE_LABELS } from '@/lib/paymentTypes'
+import type { Correction, CorrectionAction, PaymentType, WarrantItem } from '@/lib/types'
+
+export type EditableField =
+  | 'vendorCode' | 'vendorName' | 'paymentType' | 'journal' | 'check' | 'month'
+  | 'description' | 'account' | 'deptCategory' | 'amount' | 'encumbrance'
+
+export const FIELD_LABELS: Record<EditableField, string> = {
+  vendorCode: 'Vendor Code',
+  vendorName: 'Vendor Name',
+  paymentType: 'Type',
+  journal: 'Jrnl',
+  check: 'Check #',
+  month: 'Month',
+  description: 'Description',
+  account: 'Account',
+  deptCategory: 'Department',
+  amount: 'Amount',
+  encumbrance: 'Encumbrance',
+}
+
+// A row in the grid. origin is the parsed item it came from (inserted rows
+// take the origin of the row above) and original is that item as parsed,
+// or null for rows added by hand.
+export interface EditableRow {
+  key: number
+  origin: number
+  item: WarrantItem
+  original: WarrantItem | null
+}
+
+export interface EditorState {
+  rows: EditableRow[]
+  corrections: Correction[]
+}
+
+const EMPTY_STATE: EditorState = { rows: [], corrections: [] }
+
+let nextKey = 1
+
+export function formatFieldValue(item: WarrantItem, field: EditableField): string {
+  if (field === 'paymentType') return PAYMENT_TYPE_LABELS[item.paymentType]
+  if (field === 'amount' || field === 'encumbrance') return item[field].toFixed(2)
+  return item[field]
+}
+
+function logEntry(action: CorrectionAction, index: number, item: WarrantItem,
+  field = '', originalValue = '', newValue = ''): Correction {
+  return {
+    action,
+    row: index + 1,
+    vendorCode: item.vendorCode,
+    vendorName: item.vendorName,
+    field,
+    originalValue,
+    newValue,
+    at: new Date().toISOString(),
+  }
+}
+
+function describeRow(item: WarrantItem): string {
+  return [item.check && `Check ${item.check}`, item.description, item.amount.toFixed(2)]
+    .filter(Boolean)
+    .join(' / ')
+}
+
+// Working copy of the parsed items with a correction log and undo history
+export function useWarrantEditor() {
+  const [{ present, past }, setState] = useState<{ present: EditorState, past: EditorState[] }>({
+    present: EMPTY_STATE,
+    past: [],
+  })
+
+  const commit = useCallback((update: (state: EditorState) => EditorState | null) => {
+    setState(state => {
+      const next = update(state.present)
+      if (!next) return state
+      return { present: next, past: [...state.past, state.present] }
+    })
+  }, [])
+
+  // Starts editing freshly parsed items, or resumes a previous snapshot.
+  // corrections carries over a log already made, e.g. for archived warrants.
+  const load = useCallback((items: WarrantItem[], saved?: EditorState, corrections: Correction[] = []) => {
+    setState({
+      present: saved || {
+        rows: items.map((item, idx) => ({ key: nextKey++, origin: idx, item, original: item })),
+        corrections,
+      },
+      past: [],
+    })
+  }, [])
+
+  const editCell = useCallback((key: number, field: EditableField, value: string) => {
+    commit(state => {
+      const index = state.rows.findIndex(row => row.key === key)
+      if (index === -1) return null
+      const row = state.rows[index]
+
+      let item: WarrantItem
+      if (field === 'amount' || field === 'encumbrance') {
+        const amount = parseFloat(value.replace(/[$,]/g, ''))
+        if (isNaN(amount)) return null
+        item = { ...row.item, [field]: Math.round(amount * 100) / 100 }
+      } else if (field === 'paymentType') {
+        item = { ...row.item, paymentType: value as PaymentType }
+      } else if (field === 'account') {
+        // The segments are split again from the new code when it's saved
+        item = { ...row.item, account: value.trim(), accountSegments: undefined }
+      } else {
+        item = { ...row.item, [field]: value.trim() }
+      }
+
+      const before = formatFieldValue(row.item, field)
+      const after = formatFieldValue(item, field)
+      if (before === after) return null
+
+      const rows = [...state.rows]
+      rows[index] = { ...row, item }
+      return {
+        rows,
+        corrections: [...state.corrections, logEntry('edit', index, item, FIELD_LABELS[field], before, after)],
+      }
+    })
+  }, [commit])
+
+  const insertRow = useCallback((afterKey: number | null) => {
+    commit(state => {
+      const afterIndex = afterKey === null ? state.rows.length - 1 : state.rows.findIndex(row => row.key === afterKey)
+      const above = state.rows[afterIndex]
+      const item: WarrantItem = {
+        vendorCode: above?.item.vendorCode || '',
+        vendorName: above?.item.vendorName || '',
+        journal: '',
+        check: '',
+        month: above?.item.month || '',
+        description: '',
+        account: '',
+        deptCategory: '',
+        amount: 0,
+        encumbrance: 0,
+        paymentType: above?.item.paymentType || 'current',
+        source: { page: 0, lineStart: 0, lineEnd: 0, text: '' },
+        confidence: 1,
+      }
+
+      const rows = [...state.rows]
+      rows.splice(afterIndex + 1, 0, { key: nextKey++, origin: above ? above.origin : -1, item, original: null })
+      return {
+        rows,
+        corrections: [...state.corrections, logEntry('add', afterIndex + 1, item)],
+      }
+    })
+  }, [commit])
+
+  const deleteRow = useCallback((key: number) => {
+    commit(state => {
+      const index = state.rows.findIndex(row => row.key === key)
+      if (index === -1) return null
+      const { item } = state.rows[index]
+      return {
+        rows: state.rows.filter(row => row.key !== key),
+        corrections: [...state.corrections, logEntry('delete', index, item, '', describeRow(item), '')],
+      }
+    })
+  }, [commit])
+
+  const undo = useCallback(() => {
+    setState(state => state.past.length === 0 ? state : {
+      present: state.past[state.past.length - 1],
+      past: state.past.slice(0, -1),
+    })
+  }, [])
+
+  return {
+    snapshot: present,
+    rows: present.rows,
+    items: present.rows.map(row => row.item),
+    origins: present.rows.map(row => row.origin),
+    corrections: present.corrections,
+    canUndo: past.length > 0,
+    load,
+    editCell,
+    insertRow,
+    deleteRow,
+    undo,
+  }
+}
@@ -0,0 +1,191 @@
+import { resolveAccount } from './chartOfAccounts'
+import type { AccountCodeLayout, AccountSegments, AccountSegmentSpec, AccountSegmentType, ChartOfAccounts, WarrantItem } from './types'
+
+export const ACCOUNT_SEGMENT_TYPES: AccountSegmentType[] = ['fund', 'department', 'division', 'object']
+
+export const ACCOUNT_SEGMENT_LABELS: Record<AccountSegmentType, string> = {
+  fund: 'Fund',
+  department: 'Department',
+  division: 'Division',
+  object: 'Object',
+}
+
+// Expense (E) and revenue (R) codes by department, division and object,
+// e.g. E 10-13-25; general ledger (G) codes by fund, ledger account and
+// suffix, e.g. G 1-1804-00. Digit counts are maximums.
+export const DEFAULT_ACCOUNT_STRUCTURE = 'E department:3-division:3-object:4; R department:3-division:3-object:4; G fund:2-5-3'
+
+export interface ParsedAccountCode {
+  // Uppercase prefix, a space and hyphenated segments: "E 10-13-25"
+  code: string
+  prefix: string
+  segments: string[]
+  // The layout the code fits, or null with the reason in problem
+  layout: AccountCodeLayout | null
+  typed: AccountSegments
+  problem?: string
+}
+
+// Layouts written as a prefix letter and its segments, e.g.
+// "E department:2-division:2-object:2", separated by semicolons or new lines.
+// A segment is a type and its maximum digits, or just the digits when it
+// has no type.
+export function parseAccountStructure(spec: string): AccountCodeLayout[] {
+  const layouts = spec
+    .split(/[;\n]/)
+    .map(layout => layout.trim())
+    .filter(Boolean)
+    .map(parseLayout)
+  if (layouts.length === 0) {
+    throw new Error('No account code layouts given')
+  }
+  return layouts
+}
+
+function parseLayout(text: string): AccountCodeLayout {
+  const match = text.match(/^([A-Za-z])\s+(\S+)$/)
+  if (!match) {
+    throw new Error(`"${text}" should be a prefix letter and its segments, e.g. "E department:2-division:2-object:2"`)
+  }
+
+  const segments = match[2].split('-').map((segment): AccountSegmentSpec => {
+    const parts = segment.match(/^(?:([A-Za-z]+):)?(\d+)$/)
+    if (!parts || parseInt(parts[2], 10) < 1) {
+      throw new Error(`"${segment}" in "${text}" should be a segment type and its digits, e.g. object:2`)
+    }
+    const digits = parseInt(parts[2], 10)
+    if (!parts[1]) return { digits }
+    const type = parts[1].toLowerCase() as AccountSegmentType
+    if (!ACCOUNT_SEGMENT_TYPES.includes(type)) {
+      throw new Error(`Unknown segment type "${parts[1]}" in "${text}"; use ${ACCOUNT_SEGMENT_TYPES.join(', ')}`)
+    }
+    return { type, digits }
+  })
+  if (segments.length < 2) {
+    throw new Error(`"${text}" needs at least two segments`)
+  }
+
+  return { prefix: match[1].toUpperCase(), segments }
+}
+
+export function formatAccountStructure(layouts: AccountCodeLayout[]): string {
+  return layouts
+    .map(layout => `${layout.prefix} ${layout.segments.map(segment => segment.type ? `${segment.type}:${segment.digits}` : segment.digits).join('-')}`)
+    .join('; ')
+}
+
+// The layouts for municipalities without their own, from ACCOUNT_STRUCTURE
+export function defaultAccountStructure(): AccountCodeLayout[] {
+  return parseAccountStructure(process.env.ACCOUNT_STRUCTURE || DEFAULT_ACCOUNT_STRUCTURE)
+}
+
+// Splits a code as read into its prefix and segments and checks it against
+// the layouts for its prefix. Extra leading zeros are dropped from segments
+// that would otherwise be too long. Null when it isn't an account code.
+export function parseAccountCode(code: string, layouts: AccountCodeLayout[]): ParsedAccountCode | null {
+  const match = code.toUpperCase().trim().match(/^([A-Z])?\s*(\d+(?:[^\dA-Z]+\d+)*)$/)
+  if (!match) return null
+
+  const prefix = match[1] || ''
+  const read = match[2].split(/\D+/)
+  const candidates = layouts.filter(layout => layout.prefix === prefix)
+  const layout = candidates.find(candidate => candidate.segments.length === read.length)
+  if (!layout) {
+    return {
+      code: formatCode(prefix, read),
+      prefix,
+      segments: read,
+      layout: null,
+      typed: {},
+      problem: candidates.length === 0
+        ? `no layout for ${prefix ? `${prefix} codes` : 'codes without a prefix'}`
+        : `${prefix} codes have ${candidates.map(candidate => candidate.segments.length).join(' or ')} segments`,
+    }
+  }
+
+  const segments = read.map((segment, index) => {
+    const { digits } = layout.segments[index]
+    return segment.length > digits && /^0+$/.test(segment.slice(0, -digits)) ? segment.slice(-digits) : segment
+  })
+  const tooLong = segments.findIndex((segment, index) => segment.length > layout.segments[index].digits)
+  if (tooLong !== -1) {
+    return {
+      code: formatCode(prefix, segments),
+      prefix,
+      segments,
+      layout: null,
+      typed: {},
+      problem: `segment ${tooLong + 1} (${segments[tooLong]}) is longer than ${layout.segments[tooLong].digits} digits`,
+    }
+  }
+
+  const typed: AccountSegments = {}
+  layout.segments.forEach((spec, index) => {
+    if (spec.type) typed[spec.type] = segments[index]
+  })
+  return { code: formatCode(prefix, segments), prefix, segments, layout, typed }
+}
+
+function formatCode(prefix: string, segments: string[]): string {
+  return prefix ? `${prefix} ${segments.join('-')}` : segments.join('-')
+}
+
+// Normalizes the account codes that fit the layouts and records their
+// typed segments; codes that don't fit are left as read
+export function splitAccounts(items: WarrantItem[], layouts: AccountCodeLayout[]): WarrantItem[] {
+  return items.map(item => {
+    const parsed = item.account.trim() ? parseAccountCode(item.account, layouts) : null
+    if (parsed?.layout) return { ...item, account: parsed.code, accountSegments: parsed.typed }
+    if (!item.accountSegments) return item
+    const unsplit = { ...item }
+    delete unsplit.accountSegments
+    return unsplit
+  })
+}
+
+// Account codes on the items that don't fit the layouts, with the reason,
+// in the order they first appear
+export function accountStructureWarnings(items: WarrantItem[], layouts: AccountCodeLayout[]): string[] {
+  const warnings = new Map<string, string>()
+  items.forEach(item => {
+    if (!item.account.trim() || warnings.has(item.account)) return
+    const parsed = parseAccountCode(item.account, layouts)
+    if (!parsed) {
+      warnings.set(item.account, `Account ${item.account} is not a valid account code`)
+    } else if (!parsed.layout) {
+      warnings.set(item.account, `Account ${item.account} doesn't fit the account code structure: ${parsed.problem}`)
+    }
+  })
+  return Array.from(warnings.values())
+}
+
+// Whether any item's account code has a segment of the type, e.g. whether a
+// summary by fund would have more than a "No Fund" row
+export function hasAccountSegment(items: WarrantItem[], type: 'fund' | 'object', layouts?: AccountCodeLayout[] | null): boolean {
+  return items.some(item => !!accountSegment(item, type, layouts).code)
+}
+
+// With layouts the code is split again, in case it was edited
+function accountSegment(item: WarrantItem, type: 'fund' | 'object', layouts?: AccountCodeLayout[] | null) {
+  const parsed = layouts && item.account.trim() ? parseAccountCode(item.account, layouts) : null
+  const segments = layouts ? parsed?.typed ?? {} : item.accountSegments ?? {}
+  return { parsed, code: segments[type] }
+}
+
+// What summaries by fund or object group an item under: the segment code,
+// with the chart of accounts' name for it when there is one. Object codes
+// keep their prefix since expense and revenue objects are numbered apart.
+export function accountSegmentLabel(
+  item: WarrantItem,
+  type: 'fund' | 'object',
+  layouts?: AccountCodeLayout[] | null,
+  chart?: ChartOfAccounts | null,
+): string {
+  const { parsed, code } = accountSegment(item, type, layouts)
+  if (!code) return `No ${ACCOUNT_SEGMENT_LABELS[type]}`
+
+  const prefix = parsed?.prefix ?? item.account.trim().charAt(0).toUpperCase()
+  const name = chart ? resolveAccount(chart, item.account)?.[type] : ''
+  const label = type === 'object' && prefix ? `${prefix} ${code}` : code
+  return name ? `${label} - ${name}` : label
+}
@@ -0,0 +1,177 @@
+import { chartKey } from './chartOfAccounts'
+import { departmentOf } from './departments'
+import { summarizeWarrant } from './store/summary'
+import type {
+  AnalyticsDimension,
+  AnalyticsFilter,
+  ArchivedWarrant,
+  ItemSearchResult,
+  SpendingAnalytics,
+  SpendSeries,
+  WarrantItem,
+} from './types'
+import { parseWarrantDate } from './warrantDate'
+
+export const ANALYTICS_DIMENSIONS: AnalyticsDimension[] = ['vendor', 'department', 'account']
+
+export const DIMENSION_LABELS: Record<AnalyticsDimension, string> = {
+  vendor: 'Vendor',
+  department: 'Department',
+  account: 'Account Code',
+}
+
+const TOP_MOVERS = 10
+
+// Items are keyed by vendor code where there is one so OCR variants of a
+// vendor's name don't split its spend; the label is the first name seen.
+// Vendor codes, departments and account codes are each town's own, so the
+// key includes the town.
+function seriesKey(item: WarrantItem, dimension: AnalyticsDimension, municipality: string): { key: string, label: string } {
+  const town = chartKey(municipality)
+  switch (dimension) {
+    case 'vendor':
+      return { key: `${town}:${item.vendorCode || item.vendorName}`, label: item.vendorName || item.vendorCode }
+    case 'department': {
+      const dept = departmentOf(item)
+      return { key: `${town}:${dept}`, label: dept }
+    }
+    case 'account': {
+      const account = item.account.replace(/\s+/g, ' ').trim() || 'No Account'
+      return { key: `${town}:${account}`, label: account }
+    }
+  }
+}
+
+// The warrant's printed date (MM/DD/YYYY) decides its month; warrants
+// without one fall back to when they were archived
+export function warrantMonth(warrant: Pick<ArchivedWarrant, 'warrantInfo' | 'savedAt'>): string {
+  const date = parseWarrantDate(warrant.warrantInfo.date)
+  if (date) {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+  }
+  return warrant.savedAt.slice(0, 7)
+}
+
+export function parseAnalyticsFilter(params: URLSearchParams): AnalyticsFilter {
+  const ids = params.get('warrants')
+  return {
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    warrantIds: ids ? ids.split(',').filter(Boolean) : undefined,
+    municipality: params.get('municipality') || undefined,
+  }
+}
+
+export function parseDimension(value: string | null): AnalyticsDimension {
+  return ANALYTICS_DIMENSIONS.includes(value as AnalyticsDimension) ? value as AnalyticsDimension : 'vendor'
+}
+
+export function filterWarrants(warrants: ArchivedWarrant[], { from, to, warrantIds, municipality }: AnalyticsFilter): ArchivedWarrant[] {
+  return warrants.filter(warrant => {
+    if (warrantIds && !warrantIds.includes(warrant.id)) return false
+    if (municipality && chartKey(warrant.warrantInfo.municipality) !== chartKey(municipality)) return false
+    const month = warrantMonth(warrant)
+    if (from && month < from) return false
+    if (to && month > to) return false
+    return true
+  })
+}
+
+export function buildAnalytics(warrants: ArchivedWarrant[], dimension: AnalyticsDimension): SpendingAnalytics {
+  const seriesByKey = new Map<string, SpendSeries>()
+  const monthTotals: Record<string, number> = {}
+  let total = 0
+  // With more than one town in view, series are labeled with theirs
+  const towns = new Set(warrants.map(warrant => chartKey(warrant.warrantInfo.municipality)))
+  const labelTown = towns.size > 1
+
+  warrants.forEach(warrant => {
+    const month = warrantMonth(warrant)
+    const { municipality } = warrant.warrantInfo
+    warrant.items.forEach(item => {
+      const { key, label } = seriesKey(item, dimension, municipality)
+      let series = seriesByKey.get(key)
+      if (!series) {
+        series = { key, label: labelTown ? `${label} (${municipality})` : label, total: 0, byMonth: {}, change: 0 }
+        seriesByKey.set(key, series)
+      }
+      series.total += item.amount
+      series.byMonth[month] = (series.byMonth[month] || 0) + item.amount
+      monthTotals[month] = (monthTotals[month] || 0) + item.amount
+      total += item.amount
+    })
+  })
+
+  const months = monthRange(Object.keys(monthTotals))
+  months.forEach(month => {
+    if (!monthTotals[month]) monthTotals[month] = 0
+  })
+
+  const [previous, latest] = months.slice(-2)
+  const series = Array.from(seriesByKey.values())
+  if (latest) {
+    series.forEach(entry => {
+      entry.change = (entry.byMonth[latest] || 0) - (entry.byMonth[previous] || 0)
+    })
+  }
+
+  return {
+    dimension,
+    months,
+    monthTotals,
+    total,
+    warrants: warrants
+      .map(summarizeWarrant)
+      .sort((a, b) => warrantMonth(a).localeCompare(warrantMonth(b))),
+    series: series.sort((a, b) => b.total - a.total),
+    movers: months.length < 2 ? [] : series
+      .filter(entry => entry.change !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, TOP_MOVERS),
+  }
+}
+
+// The line items behind one series, optionally for a single month
+export function analyticsItems(
+  warrants: ArchivedWarrant[],
+  dimension: AnalyticsDimension,
+  key: string,
+  month?: string,
+): ItemSearchResult[] {
+  const results: ItemSearchResult[] = []
+  warrants.forEach(warrant => {
+    if (month && warrantMonth(warrant) !== month) return
+    warrant.items.forEach((item, index) => {
+      if (seriesKey(item, dimension, warrant.warrantInfo.municipality).key !== key) return
+      results.push({ warrantId: warrant.id, warrantInfo: warrant.warrantInfo, index, item })
+    })
+  })
+  return results
+}
+
+// Change from the month before, as a fraction; null when there was nothing to compare to
+export function monthOverMonth(monthTotals: Record<string, number>, months: string[], month: string): number | null {
+  const index = months.indexOf(month)
+  if (index < 1) return null
+  const previous = monthTotals[months[index - 1]]
+  return previous ? (monthTotals[month] - previous) / previous : null
+}
+
+// Every month from the earliest to the latest, so a month without a warrant
+// shows as zero instead of disappearing from the trend
+function monthRange(months: string[]): string[] {
+  if (months.length === 0) return []
+  const sorted = [...months].sort()
+  const last = sorted[sorted.length - 1]
+  const range: string[] = []
+  let [year, month] = sorted[0].split('-').map(Number)
+  for (let current = sorted[0]; current <= last; current = `${year}-${String(month).padStart(2, '0')}`) {
+    range.push(current)
+    month++
+    if (month > 12) {
+      month = 1
+      year++
+    }
+  }
+  return range
+}
@@ -0,0 +1,124 @@
+import { chartKey, normalizeAccountCode } from './chartOfAccounts'
+import type {
+  ArchivedWarrant,
+  Budget,
+  BudgetComparison,
+  BudgetLine,
+  BudgetStatus,
+  WarrantInfo,
+  WarrantItem,
+} from './types'
+import { fiscalYearOf, parseWarrantDate } from './warrantDate'
+
+export const DEFAULT_BUDGET_THRESHOLD = 90
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  ok: 'Within budget',
+  near: 'Near limit',
+  over: 'Over budget',
+}
+
+// Budgets are stored per municipality and fiscal year
+export function budgetId(municipality: string, fiscalYear: number): string {
+  return `${chartKey(municipality)}-fy${fiscalYear}`
+}
+
+// The fiscal year a warrant's spending counts against, as confirmed on the
+// header or from its printed date
+export function warrantFiscalYear(warrantInfo: WarrantInfo): number | null {
+  if (warrantInfo.fiscalYear) return warrantInfo.fiscalYear
+  const date = parseWarrantDate(warrantInfo.date)
+  return date ? fiscalYearOf(date) : null
+}
+
+// BUDGET_WARNING_PERCENT overrides the default threshold
+export function budgetThreshold(): number {
+  const value = parseFloat(process.env.BUDGET_WARNING_PERCENT || '')
+  return isNaN(value) ? DEFAULT_BUDGET_THRESHOLD : value
+}
+
+export function budgetStatus(line: Pick<BudgetLine, 'budgeted' | 'yearToDate'>, threshold: number): BudgetStatus {
+  if (line.yearToDate > line.budgeted + 0.005) return 'over'
+  if (line.budgeted > 0 && (line.yearToDate / line.budgeted) * 100 >= threshold) return 'near'
+  return 'ok'
+}
+
+// Compares a warrant's spending, and the year to date including every
+// archived warrant for the same municipality and fiscal year dated on or
+// before it, with the budget. history should not include this warrant.
+// Expense accounts that were spent against but have no budget are listed
+// too; G (balance sheet) accounts are only listed when budgeted.
+export function compareBudget(
+  budget: Budget,
+  items: WarrantItem[],
+  warrantInfo: WarrantInfo,
+  history: ArchivedWarrant[],
+  threshold: number = DEFAULT_BUDGET_THRESHOLD,
+): BudgetComparison {
+  const date = parseWarrantDate(warrantInfo.date)
+  const municipality = chartKey(budget.municipality)
+  const prior = history.filter(warrant => {
+    if (chartKey(warrant.warrantInfo.municipality) !== municipality) return false
+    const other = parseWarrantDate(warrant.warrantInfo.date)
+    if (!other || fiscalYearOf(other) !== budget.fiscalYear) return false
+    return !date || other.getTime() <= date.getTime()
+  })
+
+  const lines = new Map<string, BudgetLine>()
+  const lineFor = (account: string) => {
+    const key = normalizeAccountCode(account)
+    let line = lines.get(key)
+    if (!line) {
+      line = { account, description: '', budgeted: 0, spent: 0, yearToDate: 0, remaining: 0, percentUsed: null, status: 'ok' }
+      lines.set(key, line)
+    }
+    return line
+  }
+
+  budget.accounts.forEach(entry => {
+    const line = lineFor(entry.account)
+    line.budgeted += entry.amount
+    if (!line.description) line.description = entry.description
+  })
+  const counted = (item: WarrantItem) => {
+    if (!item.account.trim()) return false
+    const key = normalizeAccountCode(item.account)
+    return lines.has(key) || !key.startsWith('G')
+  }
+
+  items.filter(counted).forEach(item => {
+    const line = lineFor(item.account)
+    line.spent += item.amount
+    line.yearToDate += item.amount
+  })
+  prior.forEach(warrant => warrant.items.filter(counted).forEach(item => {
+    lineFor(item.account).yearToDate += item.amount
+  }))
+
+  const totals = { budgeted: 0, spent: 0, yearToDate: 0, remaining: 0 }
+  const result = Array.from(lines.values())
+    .map(line => {
+      const remaining = line.budgeted - line.yearToDate
+      totals.budgeted += line.budgeted
+      totals.spent += line.spent
+      totals.yearToDate += line.yearToDate
+      totals.remaining += remaining
+      return {
+        ...line,
+        remaining,
+        percentUsed: line.budgeted > 0 ? (line.yearToDate / line.budgeted) * 100 : null,
+        status: budgetStatus(line, threshold),
+      }
+    })
+    .sort((a, b) => normalizeAccountCode(a.account).localeCompare(normalizeAccountCode(b.account), undefined, { numeric: true }))
+
+  return {
+    budgetId: budget.id,
+    municipality: budget.municipality,
+    fiscalYear: budget.fiscalYear,
+    threshold,
+    priorWarrants: prior.length,
+    lines: result,
+    totals,
+  }
+}
@@ -0,0 +1,67 @@
+import type { ChartAccount, ChartOfAccounts, ResolvedAccount, WarrantItem } from './types'
+
+const DESCRIPTION_FIELDS = ['fund', 'department', 'function', 'object', 'description'] as const
+
+// "E 10-13-25", "E10 13 25" and "e 10-13-025" all become "E10-13-25"
+export function normalizeAccountCode(code: string): string {
+  const upper = code.toUpperCase().trim()
+  const prefix = upper.match(/^[A-Z]/)?.[0] || ''
+  const segments = upper.slice(prefix.length).split(/[^0-9]+/).filter(Boolean)
+  return prefix + segments.map(segment => segment.replace(/^0+(?=\d)/, '')).join('-')
+}
+
+// Charts are stored under a key made from the municipality name so "BRADFORD"
+// and "Bradford" share one
+export function chartKey(municipality: string): string {
+  return municipality.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'default'
+}
+
+// Looks the code up exactly, falling back to the rows for its leading
+// segments. Descriptions and the 1099 flag from longer matches win over
+// shorter ones, so a department row can mark all its accounts.
+export function resolveAccount(chart: ChartOfAccounts, code: string): ResolvedAccount | null {
+  const normalized = normalizeAccountCode(code)
+  if (!/\d/.test(normalized)) return null
+
+  const byCode = accountIndex(chart)
+  const prefix = normalized.match(/^[A-Z]?/)![0]
+  const segments = normalized.slice(prefix.length).split('-')
+
+  const resolved: ResolvedAccount = { fund: '', department: '', function: '', object: '', description: '', exact: false }
+  let found = false
+  for (let length = 1; length <= segments.length; length++) {
+    const account = byCode.get(prefix + segments.slice(0, length).join('-'))
+    if (!account) continue
+    found = true
+    DESCRIPTION_FIELDS.forEach(field => {
+      if (account[field]) resolved[field] = account[field]
+    })
+    if (account.reportable1099 !== undefined) resolved.reportable1099 = account.reportable1099
+    if (length === segments.length) resolved.exact = true
+  }
+
+  return found ? resolved : null
+}
+
+// Account codes on the items that the chart doesn't list exactly, in the
+// order they first appear
+export function unknownAccounts(chart: ChartOfAccounts, items: WarrantItem[]): string[] {
+  const byCode = accountIndex(chart)
+  const unknown = new Set<string>()
+  items.forEach(item => {
+    if (!item.account.trim()) return
+    if (!byCode.has(normalizeAccountCode(item.account))) unknown.add(item.account)
+  })
+  return Array.from(unknown)
+}
+
+const indexes = new WeakMap<ChartOfAccounts, Map<string, ChartAccount>>()
+
+function accountIndex(chart: ChartOfAccounts): Map<string, ChartAccount> {
+  let index = indexes.get(chart)
+  if (!index) {
+    index = new Map(chart.accounts.map(account => [account.code, account]))
+    indexes.set(chart, index)
+  }
+  return index
+}
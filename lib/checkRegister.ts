@@ -0,0 +1,99 @@
+import { PAYMENT_TYPES, PAYMENT_TYPE_LABELS } from './paymentTypes'
+import type { CheckIssue, CheckIssueKind, CheckRegister, RegisterCheck, WarrantItem } from './types'
+
+export const CHECK_ISSUE_LABELS: Record<CheckIssueKind, string> = {
+  'gap': 'Sequence gap',
+  'duplicate': 'Duplicate check #',
+  'multiple-vendors': 'Multiple vendors',
+}
+
+// Groups items by check number, in check order within each payment type.
+// Prepaid, current and EFT numbers are separate sequences, so gaps are only
+// looked for within a payment type. A check number is a duplicate when its
+// lines aren't together on the warrant, i.e. it was printed more than once.
+export function buildCheckRegister(items: WarrantItem[]): CheckRegister {
+  const checks = new Map<string, RegisterCheck>()
+  const runs = new Map<string, number>()
+  const unnumbered: number[] = []
+  let previousKey: string | null = null
+
+  items.forEach((item, index) => {
+    const check = item.check.trim()
+    if (!check) {
+      unnumbered.push(index)
+      previousKey = null
+      return
+    }
+    const key = `${item.paymentType}:${check}`
+    let entry = checks.get(key)
+    if (!entry) {
+      entry = { check, paymentType: item.paymentType, payee: item.vendorName, vendorCodes: [], lineCount: 0, total: 0, rows: [] }
+      checks.set(key, entry)
+    }
+    if (item.vendorCode && !entry.vendorCodes.includes(item.vendorCode)) entry.vendorCodes.push(item.vendorCode)
+    if (!entry.payee) entry.payee = item.vendorName
+    entry.lineCount++
+    entry.total += item.amount
+    entry.rows.push(index)
+    if (key !== previousKey) runs.set(key, (runs.get(key) || 0) + 1)
+    previousKey = key
+  })
+
+  const register = Array.from(checks.values()).sort((a, b) =>
+    PAYMENT_TYPES.indexOf(a.paymentType) - PAYMENT_TYPES.indexOf(b.paymentType) || compareCheckNumbers(a.check, b.check)
+  )
+
+  const issues: CheckIssue[] = []
+  register.forEach((entry, position) => {
+    const type = PAYMENT_TYPE_LABELS[entry.paymentType]
+    const previous = register[position - 1]
+    if (previous && previous.paymentType === entry.paymentType && isNumeric(previous.check) && isNumeric(entry.check)) {
+      const missing = parseInt(entry.check, 10) - parseInt(previous.check, 10) - 1
+      if (missing > 0) {
+        const first = checkNumber(parseInt(previous.check, 10) + 1, entry.check)
+        const last = checkNumber(parseInt(entry.check, 10) - 1, entry.check)
+        issues.push({
+          kind: 'gap',
+          check: entry.check,
+          paymentType: entry.paymentType,
+          message: missing === 1
+            ? `${type} #${first} is missing between #${previous.check} and #${entry.check}`
+            : `${missing} ${type} numbers missing, #${first}–#${last}`,
+        })
+      }
+    }
+    const count = runs.get(`${entry.paymentType}:${entry.check}`) || 0
+    if (count > 1) {
+      issues.push({
+        kind: 'duplicate',
+        check: entry.check,
+        paymentType: entry.paymentType,
+        message: `${type} #${entry.check} is listed in ${count} separate places on the warrant`,
+      })
+    }
+    if (entry.vendorCodes.length > 1) {
+      issues.push({
+        kind: 'multiple-vendors',
+        check: entry.check,
+        paymentType: entry.paymentType,
+        message: `${type} #${entry.check} pays ${entry.vendorCodes.length} vendor codes: ${entry.vendorCodes.join(', ')}`,
+      })
+    }
+  })
+
+  return { checks: register, issues, unnumbered, total: register.reduce((sum, entry) => sum + entry.total, 0) }
+}
+
+function isNumeric(check: string): boolean {
+  return /^\d+$/.test(check)
+}
+
+function compareCheckNumbers(a: string, b: string): number {
+  if (isNumeric(a) && isNumeric(b)) return parseInt(a, 10) - parseInt(b, 10)
+  return a.localeCompare(b)
+}
+
+// Formats a number like the check it sits next to, keeping leading zeros
+function checkNumber(value: number, like: string): string {
+  return String(value).padStart(like.length, '0')
+}
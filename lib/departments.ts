@@ -0,0 +1,20 @@
+import { resolveAccount } from './chartOfAccounts'
+import type { ChartOfAccounts, WarrantItem } from './types'
+
+// With a chart of accounts the department comes from the item's account
+// code. Otherwise, or when the chart doesn't know the code, it is the part
+// of "DEPT - CATEGORY / DETAIL" before the separator.
+export function departmentOf(item: WarrantItem, chart?: ChartOfAccounts | null): string {
+  if (chart && item.account) {
+    const resolved = resolveAccount(chart, item.account)
+    if (resolved?.department) return resolved.department
+  }
+
+  let dept = item.deptCategory || 'Uncategorized'
+  if (dept.includes(' - ')) {
+    dept = dept.split(' - ')[0]
+  } else if (dept.includes(' / ')) {
+    dept = dept.split(' / ')[0]
+  }
+  return dept
+}
@@ -0,0 +1,12 @@
+// Saves a file response from one of the export routes in the browser
+export async function saveResponse(response: Response, filename: string) {
+  const blob = await response.blob()
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,37 @@
+import JSZip from 'jszip'
+
+function isPdf(name: string): boolean {
+  return /\.pdf$/i.test(name)
+}
+
+function isZip(name: string): boolean {
+  return /\.zip$/i.test(name)
+}
+
+// Flattens dropped files into the PDFs to parse, unpacking any zip archives.
+// Anything else is reported back by name rather than silently dropped.
+export async function expandUploads(files: File[]): Promise<{ pdfs: File[], skipped: string[] }> {
+  const pdfs: File[] = []
+  const skipped: string[] = []
+
+  for (const file of files) {
+    if (isPdf(file.name) || file.type === 'application/pdf') {
+      pdfs.push(file)
+    } else if (isZip(file.name)) {
+      const zip = await JSZip.loadAsync(file)
+      const entries = Object.values(zip.files)
+        .filter(entry => !entry.dir && isPdf(entry.name) && !entry.name.startsWith('__MACOSX/'))
+        .sort((a, b) => a.name.localeCompare(b.name))
+      if (entries.length === 0) skipped.push(`${file.name} (no PDFs inside)`)
+      for (const entry of entries) {
+        const blob = await entry.async('blob')
+        const name = entry.name.split('/').pop() || entry.name
+        pdfs.push(new File([blob], name, { type: 'application/pdf' }))
+      }
+    } else {
+      skipped.push(file.name)
+    }
+  }
+
+  return { pdfs, skipped }
+}
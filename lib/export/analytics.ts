@@ -0,0 +1,117 @@
+import * as XLSX from 'xlsx'
+import { ANALYTICS_DIMENSIONS, DIMENSION_LABELS, buildAnalytics, monthOverMonth } from '../analytics'
+import type { ArchivedWarrant, SpendingAnalytics } from '../types'
+
+type Row = (string | number)[]
+
+// The dashboard's aggregates as a workbook: monthly totals, one
+// month-by-month sheet per dimension, the top movers and the warrants covered
+export function buildAnalyticsWorkbook(warrants: ArchivedWarrant[]): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new()
+  const views = ANALYTICS_DIMENSIONS.map(dimension => buildAnalytics(warrants, dimension))
+  const { months, monthTotals, total } = views[0]
+
+  // Sheet 1: Monthly Totals with month-over-month change
+  const monthData: Row[] = [
+    ['Spending by Month'],
+    [rangeLabel(months)],
+    [],
+    ['Month', 'Total Amount', 'Change', '% Change'],
+  ]
+  months.forEach((month, index) => {
+    const change = monthOverMonth(monthTotals, months, month)
+    monthData.push([
+      month,
+      monthTotals[month],
+      index > 0 ? monthTotals[month] - monthTotals[months[index - 1]] : '',
+      change === null ? '' : change,
+    ])
+  })
+  monthData.push([])
+  monthData.push(['TOTAL', total])
+  const monthSheet = XLSX.utils.aoa_to_sheet(monthData)
+  monthSheet['!cols'] = [{ wch: 12 }, { wch: 15 }, { wch: 15 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(wb, monthSheet, 'Monthly Totals')
+
+  // Sheets 2-4: Spend by Vendor, Department and Account Code per month
+  views.forEach(view => appendSpendSheet(wb, view))
+
+  // Sheet 5: Top Movers between the last two months, across all dimensions
+  const [previous, latest] = months.slice(-2)
+  const moverData: Row[] = [
+    ['Top Movers'],
+    [latest ? `${previous} to ${latest}` : 'Needs at least two months of warrants'],
+    [],
+    ['Type', 'Name', previous || 'Previous', latest || 'Latest', 'Change'],
+  ]
+  if (latest) {
+    views.forEach(view => {
+      view.movers.forEach(series => {
+        moverData.push([
+          DIMENSION_LABELS[view.dimension],
+          series.label,
+          series.byMonth[previous] || 0,
+          series.byMonth[latest] || 0,
+          series.change,
+        ])
+      })
+    })
+  }
+  const moverSheet = XLSX.utils.aoa_to_sheet(moverData)
+  moverSheet['!cols'] = [{ wch: 14 }, { wch: 45 }, { wch: 15 }, { wch: 15 }, { wch: 15 }]
+  XLSX.utils.book_append_sheet(wb, moverSheet, 'Top Movers')
+
+  // Sheet 6: Warrants included
+  const warrantData: Row[] = [
+    ['Warrants Included'],
+    [],
+    ['Municipality', 'Warrant #', 'Date', 'File', 'Line Items', 'Total Amount'],
+  ]
+  views[0].warrants.forEach(warrant => {
+    warrantData.push([
+      warrant.warrantInfo.municipality,
+      warrant.warrantInfo.warrantNumber,
+      warrant.warrantInfo.date,
+      warrant.fileName,
+      warrant.itemCount,
+      warrant.total,
+    ])
+  })
+  const warrantSheet = XLSX.utils.aoa_to_sheet(warrantData)
+  warrantSheet['!cols'] = [{ wch: 20 }, { wch: 10 }, { wch: 12 }, { wch: 35 }, { wch: 12 }, { wch: 15 }]
+  XLSX.utils.book_append_sheet(wb, warrantSheet, 'Warrants Included')
+
+  return wb
+}
+
+function appendSpendSheet(wb: XLSX.WorkBook, { dimension, months, monthTotals, total, series }: SpendingAnalytics) {
+  const title = `Spend by ${DIMENSION_LABELS[dimension]}`
+  const rows: Row[] = [
+    [title],
+    [rangeLabel(months)],
+    [],
+    [DIMENSION_LABELS[dimension], ...months, 'Total Amount', 'Latest Change', '% of Total'],
+  ]
+
+  series.forEach(entry => {
+    rows.push([
+      entry.label,
+      ...months.map(month => entry.byMonth[month] || 0),
+      entry.total,
+      entry.change,
+      total ? entry.total / total : 0,
+    ])
+  })
+
+  rows.push([])
+  rows.push(['TOTAL', ...months.map(month => monthTotals[month]), total, '', 1])
+
+  const ws = XLSX.utils.aoa_to_sheet(rows)
+  ws['!cols'] = [{ wch: 45 }, ...months.map(() => ({ wch: 13 })), { wch: 15 }, { wch: 14 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(wb, ws, title)
+}
+
+function rangeLabel(months: string[]): string {
+  if (months.length === 0) return 'No warrants in range'
+  return months.length === 1 ? months[0] : `${months[0]} to ${months[months.length - 1]}`
+}
@@ -0,0 +1,47 @@
+import { budgetThreshold } from '../budget'
+import { reviewOptions, reviewWarrant } from '../review'
+import { loadAll } from '../store/archive'
+import { getAccountLayouts } from '../store/accountStructures'
+import { compareWithBudget } from '../store/budgets'
+import { getChart } from '../store/charts'
+import { getVendorMaster } from '../store/vendors'
+import { buildWarrantCsv, buildWarrantJson } from './csv'
+import type { ExportFormat } from './formats'
+import { buildJournal, journalLayout } from './journal'
+import type { JournalLayout } from './journal'
+import { buildBoardReport } from './report'
+import { buildWarrantWorkbook, writeWorkbook } from './workbook'
+import type { WarrantExport } from './workbook'
+
+// The export file for one warrant, shared by /api/export and the CLI. The
+// workbook and report look up the chart of accounts, vendor master, review
+// flags, budget and account code structure from the data store.
+export async function buildWarrantExport(
+  body: WarrantExport,
+  format: ExportFormat,
+  layout?: JournalLayout,
+): Promise<string | Buffer> {
+  switch (format.id) {
+    case 'csv':
+      return buildWarrantCsv(body)
+    case 'json':
+      return buildWarrantJson(body)
+    case 'journal':
+      return buildJournal(body, layout ?? journalLayout())
+    case 'report':
+      return buildBoardReport({
+        ...body,
+        chart: await getChart(body.warrantInfo.municipality),
+        vendors: await getVendorMaster(body.warrantInfo.municipality),
+      })
+    default: {
+      const history = (await loadAll()).filter(warrant => warrant.id !== body.archiveId)
+      const reviewFlags = reviewWarrant(body.data, body.warrantInfo, history, reviewOptions())
+      const chart = await getChart(body.warrantInfo.municipality)
+      const budget = await compareWithBudget(body.data, body.warrantInfo, body.archiveId, body.budgetThreshold ?? budgetThreshold())
+      const vendors = await getVendorMaster(body.warrantInfo.municipality)
+      const accountLayouts = await getAccountLayouts(body.warrantInfo.municipality)
+      return writeWorkbook(buildWarrantWorkbook({ ...body, reviewFlags, chart, budget, vendors, accountLayouts }))
+    }
+  }
+}
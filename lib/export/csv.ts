@@ -0,0 +1,34 @@
+import { DETAIL_HEADINGS, detailRow } from './workbook'
+import type { WarrantExport } from './workbook'
+
+type Cell = string | number
+
+// Quotes cells containing the delimiter, quotes or line breaks; CRLF line
+// endings as most accounting imports expect
+export function toCsv(rows: Cell[][], delimiter = ','): string {
+  return rows
+    .map(row => row.map(cell => {
+      const text = String(cell)
+      return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }).join(delimiter))
+    .join('\r\n') + '\r\n'
+}
+
+// One row per line item with the warrant's header repeated on each, so the
+// file stands alone once rows from several warrants are combined
+export function buildWarrantCsv({ data, warrantInfo }: WarrantExport): string {
+  return toCsv([
+    ['Municipality', 'Warrant #', 'Warrant Date', ...DETAIL_HEADINGS],
+    ...data.map(item => [warrantInfo.municipality, warrantInfo.warrantNumber, warrantInfo.date, ...detailRow(item)]),
+  ])
+}
+
+export function buildWarrantJson({ data, warrantInfo, total, corrections = [] }: WarrantExport): string {
+  return JSON.stringify({
+    warrantInfo,
+    total,
+    itemCount: data.length,
+    items: data,
+    corrections,
+  }, null, 2)
+}
@@ -0,0 +1,106 @@
+import * as XLSX from 'xlsx'
+import { FORM_1099_EXCLUSION_LABELS } from '../form1099'
+import { PAYMENT_TYPE_LABELS } from '../paymentTypes'
+import type { Form1099Report } from '../types'
+
+type Row = (string | number)[]
+
+// The calendar-year 1099 worksheet: one row per vendor with its reportable
+// total, then every payment behind those totals and what was left out
+export function buildForm1099Workbook(report: Form1099Report): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new()
+  const { year, threshold, municipality, excludedPaymentTypes, vendors } = report
+  const subtitle = [
+    municipality || 'All municipalities',
+    `Threshold ${threshold.toFixed(2)}`,
+    excludedPaymentTypes.length > 0
+      ? `Excluding ${excludedPaymentTypes.map(type => PAYMENT_TYPE_LABELS[type]).join(', ')} payments`
+      : 'All payment types',
+  ].join(' - ')
+
+  // Sheet 1: 1099 Worksheet, eligible vendors first
+  const vendorData: Row[] = [
+    [`1099 Worksheet - Calendar Year ${year}`],
+    [subtitle],
+    [],
+    ['Municipality', 'Vendor Code', 'Vendor Name', 'Total Paid', 'Payments', '1099 Eligible', 'Excluded', 'Warrants', 'Checks'],
+  ]
+  vendors.forEach(vendor => {
+    vendorData.push([
+      vendor.municipality,
+      vendor.vendorCode,
+      vendor.vendorName,
+      vendor.total,
+      vendor.paymentCount,
+      vendor.eligible ? 'Yes' : 'No',
+      vendor.excludedTotal || '',
+      vendor.warrants.join(', '),
+      vendor.checks.join(', '),
+    ])
+  })
+  vendorData.push([])
+  vendorData.push(['TOTAL', '', `${report.eligibleCount} of ${vendors.length} vendors eligible`, report.total, '', '', report.excludedTotal || ''])
+  const vendorSheet = XLSX.utils.aoa_to_sheet(vendorData)
+  vendorSheet['!cols'] = [
+    { wch: 20 }, { wch: 12 }, { wch: 35 }, { wch: 15 }, { wch: 10 }, { wch: 12 }, { wch: 13 }, { wch: 25 }, { wch: 35 },
+  ]
+  XLSX.utils.book_append_sheet(wb, vendorSheet, '1099 Worksheet')
+
+  // Sheet 2: Payments, including excluded ones with the reason
+  const paymentData: Row[] = [
+    [`1099 Payments - Calendar Year ${year}`],
+    [subtitle],
+    [],
+    ['Vendor Code', 'Vendor Name', 'Warrant #', 'Date', 'Check #', 'Type', 'Account', 'Description', 'Amount', 'Excluded'],
+  ]
+  vendors.forEach(vendor => {
+    vendor.payments.forEach(payment => {
+      paymentData.push([
+        vendor.vendorCode,
+        vendor.vendorName,
+        payment.warrantNumber,
+        payment.date,
+        payment.check,
+        PAYMENT_TYPE_LABELS[payment.paymentType],
+        payment.account,
+        payment.description,
+        payment.amount,
+        payment.excluded ? FORM_1099_EXCLUSION_LABELS[payment.excluded] : '',
+      ])
+    })
+  })
+  const paymentSheet = XLSX.utils.aoa_to_sheet(paymentData)
+  paymentSheet['!cols'] = [
+    { wch: 12 }, { wch: 35 }, { wch: 10 }, { wch: 12 }, { wch: 10 }, { wch: 10 }, { wch: 15 }, { wch: 40 }, { wch: 15 }, { wch: 28 },
+  ]
+  XLSX.utils.book_append_sheet(wb, paymentSheet, 'Payments')
+
+  // Sheet 3: Warrants included, and any that couldn't be placed in a year
+  const warrantData: Row[] = [
+    ['Warrants Included'],
+    [],
+    ['Municipality', 'Warrant #', 'Date', 'File', 'Line Items', 'Total Amount'],
+  ]
+  report.warrants.forEach(warrant => {
+    warrantData.push([
+      warrant.warrantInfo.municipality,
+      warrant.warrantInfo.warrantNumber,
+      warrant.warrantInfo.date,
+      warrant.fileName,
+      warrant.itemCount,
+      warrant.total,
+    ])
+  })
+  if (report.undated.length > 0) {
+    warrantData.push([])
+    warrantData.push(['Left out: no readable warrant date'])
+    report.undated.forEach(warrant => {
+      warrantData.push([warrant.warrantInfo.municipality, warrant.warrantInfo.warrantNumber, warrant.warrantInfo.date, warrant.fileName])
+    })
+  }
+  const warrantSheet = XLSX.utils.aoa_to_sheet(warrantData)
+  warrantSheet['!cols'] = [{ wch: 20 }, { wch: 10 }, { wch: 12 }, { wch: 35 }, { wch: 12 }, { wch: 15 }]
+  XLSX.utils.book_append_sheet(wb, warrantSheet, 'Warrants Included')
+
+  return wb
+}
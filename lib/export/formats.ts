@@ -0,0 +1,29 @@
+import type { WarrantInfo } from '../types'
+
+export type ExportFormatId = 'xlsx' | 'csv' | 'json' | 'journal' | 'report'
+
+export interface ExportFormat {
+  id: ExportFormatId
+  label: string
+  extension: string
+  contentType: string
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'xlsx', label: 'Excel', extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { id: 'csv', label: 'CSV', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  { id: 'json', label: 'JSON', extension: 'json', contentType: 'application/json' },
+  { id: 'journal', label: 'GL Journal', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  { id: 'report', label: 'Board Packet', extension: 'html', contentType: 'text/html; charset=utf-8' },
+]
+
+export function getExportFormat(id: string): ExportFormat | undefined {
+  return EXPORT_FORMATS.find(format => format.id === id)
+}
+
+export function exportFilename(warrantInfo: WarrantInfo, format: ExportFormat): string {
+  const suffix = format.id === 'journal' ? '_Journal' : format.id === 'report' ? '_Board_Packet' : ''
+  const name = (value: string) => value.replace(/[^A-Za-z0-9-]+/g, '_').replace(/^_+|_+$/g, '')
+  const period = warrantInfo.fiscalYear ? `_FY${warrantInfo.fiscalYear}` : ''
+  return `${name(warrantInfo.municipality)}${period}_Warrant_${name(warrantInfo.warrantNumber)}${suffix}.${format.extension}`
+}
@@ -0,0 +1,132 @@
+import { toCsv } from './csv'
+import type { WarrantExport } from './workbook'
+
+export type JournalField =
+  | 'date' | 'journal' | 'account' | 'debit' | 'credit' | 'amount' | 'description'
+  | 'vendorCode' | 'vendorName' | 'check' | 'warrant' | 'municipality'
+
+export const JOURNAL_FIELDS: JournalField[] = [
+  'date', 'journal', 'account', 'debit', 'credit', 'amount', 'description',
+  'vendorCode', 'vendorName', 'check', 'warrant', 'municipality',
+]
+
+const FIELD_HEADINGS: Record<JournalField, string> = {
+  date: 'Date',
+  journal: 'Journal',
+  account: 'Account',
+  debit: 'Debit',
+  credit: 'Credit',
+  amount: 'Amount',
+  description: 'Description',
+  vendorCode: 'Vendor Code',
+  vendorName: 'Vendor Name',
+  check: 'Check',
+  warrant: 'Warrant',
+  municipality: 'Municipality',
+}
+
+// Which columns the accounting system's import expects, in order. 'amount'
+// is signed (debits positive) for systems without separate debit and credit
+// columns.
+export interface JournalLayout {
+  columns: JournalField[]
+  delimiter: string
+  header: boolean
+  // Account credited for the cash paid out, one line per check
+  creditAccount: string
+}
+
+export const DEFAULT_JOURNAL_LAYOUT: JournalLayout = {
+  columns: ['date', 'journal', 'account', 'debit', 'credit', 'description', 'vendorCode', 'check'],
+  delimiter: ',',
+  header: true,
+  creditAccount: 'G 1-1000-00',
+}
+
+interface JournalLine {
+  journal: string
+  account: string
+  amount: number
+  description: string
+  vendorCode: string
+  vendorName: string
+  check: string
+}
+
+// The layout from JOURNAL_COLUMNS (comma-separated fields), JOURNAL_DELIMITER,
+// JOURNAL_HEADER and JOURNAL_CREDIT_ACCOUNT, with request parameters of the
+// same names in lower case taking precedence
+export function journalLayout(params?: URLSearchParams): JournalLayout {
+  const setting = (name: string) => params?.get(name.toLowerCase()) || process.env[`JOURNAL_${name}`] || ''
+
+  const columns = setting('COLUMNS')
+    .split(',')
+    .map(column => column.trim())
+    .filter(Boolean)
+  const unknown = columns.filter(column => !JOURNAL_FIELDS.includes(column as JournalField))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown journal column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}. Use any of ${JOURNAL_FIELDS.join(', ')}`)
+  }
+
+  const delimiter = setting('DELIMITER')
+  const header = setting('HEADER')
+  return {
+    columns: columns.length > 0 ? columns as JournalField[] : DEFAULT_JOURNAL_LAYOUT.columns,
+    delimiter: delimiter === 'tab' ? '\t' : delimiter || DEFAULT_JOURNAL_LAYOUT.delimiter,
+    header: header ? header !== 'false' : DEFAULT_JOURNAL_LAYOUT.header,
+    creditAccount: setting('CREDIT_ACCOUNT') || DEFAULT_JOURNAL_LAYOUT.creditAccount,
+  }
+}
+
+// A debit to each item's account, then a credit to the cash account for
+// each check (or for the items paid without one), so the journal balances.
+// EFT numbers run separately from check numbers, so payments are told apart
+// by payment type as well.
+export function buildJournal({ data, warrantInfo }: WarrantExport, layout: JournalLayout = DEFAULT_JOURNAL_LAYOUT): string {
+  const lines: JournalLine[] = data.map(item => ({
+    journal: item.journal,
+    account: item.account,
+    amount: item.amount,
+    description: item.description || item.vendorName,
+    vendorCode: item.vendorCode,
+    vendorName: item.vendorName,
+    check: item.check,
+  }))
+
+  const payments = new Map<string, JournalLine>()
+  data.forEach(item => {
+    const key = item.check ? `${item.paymentType}:${item.check}` : ''
+    let payment = payments.get(key)
+    if (!payment) {
+      payment = {
+        journal: item.journal,
+        account: layout.creditAccount,
+        amount: 0,
+        description: item.check ? `${item.paymentType === 'eft' ? 'EFT' : 'Check'} ${item.check} ${item.vendorName}` : `Warrant ${warrantInfo.warrantNumber} payments without check`,
+        vendorCode: item.check ? item.vendorCode : '',
+        vendorName: item.check ? item.vendorName : '',
+        check: item.check,
+      }
+      payments.set(key, payment)
+    }
+    payment.amount -= item.amount
+  })
+  lines.push(...Array.from(payments.values()))
+
+  const value = (line: JournalLine, field: JournalField): string | number => {
+    const amount = Math.round(line.amount * 100) / 100
+    switch (field) {
+      case 'date': return warrantInfo.date
+      case 'debit': return amount > 0 ? amount.toFixed(2) : ''
+      case 'credit': return amount < 0 ? (-amount).toFixed(2) : ''
+      case 'amount': return amount.toFixed(2)
+      case 'warrant': return warrantInfo.warrantNumber
+      case 'municipality': return warrantInfo.municipality
+      default: return line[field]
+    }
+  }
+
+  const rows = lines.map(line => layout.columns.map(field => value(line, field)))
+  if (layout.header) rows.unshift(layout.columns.map(field => FIELD_HEADINGS[field]))
+  return toCsv(rows, layout.delimiter)
+}
@@ -0,0 +1,166 @@
+import { departmentOf } from '../departments'
+import { PAYMENT_TYPES, PAYMENT_TYPE_LABELS } from '../paymentTypes'
+import type { WarrantItem } from '../types'
+import { vendorNamer } from '../vendors'
+import { groupTotals, postingLabel } from './workbook'
+import type { PaymentTypeTotals, WarrantExport } from './workbook'
+
+// Signature lines for the board under the certification
+const BOARD_SIGNATURES = 5
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function money(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return amount < 0 ? `(${formatted})` : formatted
+}
+
+// A self-contained HTML page for board meeting packets. Print styles set
+// letter-size pages, repeat table headings on each page and keep rows and
+// the signature block from splitting across pages.
+export function buildBoardReport({ data, warrantInfo, total, chart, vendors }: WarrantExport): string {
+  const title = `${warrantInfo.municipality} A/P Warrant #${warrantInfo.warrantNumber}`
+  const vendorName = vendorNamer(data, vendors)
+  const checks = new Set(data.filter(item => item.check).map(item => item.check)).size
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: letter; margin: 0.6in 0.5in; @bottom-right { content: "Page " counter(page) " of " counter(pages); font: 9pt Georgia, serif; } }
+  body { font: 10pt Georgia, 'Times New Roman', serif; color: #111; margin: 0 auto; max-width: 7.5in; padding: 0.5in 0; }
+  h1 { font-size: 18pt; margin: 0; }
+  h2 { font-size: 13pt; border-bottom: 2px solid #111; padding-bottom: 2pt; margin: 24pt 0 8pt; }
+  .subtitle { font-size: 11pt; color: #444; margin-top: 4pt; }
+  .stats { display: flex; gap: 24pt; margin: 12pt 0; font-size: 10pt; }
+  .stats strong { display: block; font-size: 13pt; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  th { text-align: left; border-bottom: 1px solid #111; padding: 3pt 4pt; font-size: 9pt; }
+  td { padding: 2pt 4pt; vertical-align: top; }
+  tr { page-break-inside: avoid; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .mono { font-family: 'Courier New', monospace; font-size: 9pt; }
+  .vendor th { border-bottom: none; padding-top: 10pt; font-size: 10pt; }
+  .subtotal td { border-top: 1px solid #999; font-weight: bold; }
+  .grand td { border-top: 2px solid #111; font-weight: bold; padding-top: 4pt; }
+  .detail { page-break-before: always; }
+  .certification { page-break-inside: avoid; margin-top: 24pt; }
+  .certification p { margin: 0 0 6pt; }
+  .signatures { display: grid; grid-template-columns: 1fr 1fr; gap: 28pt 36pt; margin-top: 28pt; }
+  .signature { border-top: 1px solid #111; padding-top: 3pt; font-size: 9pt; }
+  .toolbar { margin-bottom: 16pt; }
+  @media print { .toolbar { display: none; } body { padding: 0; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print</button></div>
+
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="subtitle">Warrant date ${escapeHtml([warrantInfo.date, postingLabel(warrantInfo)].filter(Boolean).join(' - '))}</div>
+  <div class="stats">
+    <div><strong>$${money(total)}</strong>Total</div>
+    <div><strong>${data.length}</strong>Line items</div>
+    <div><strong>${new Set(data.map(vendorName)).size}</strong>Vendors</div>
+    <div><strong>${checks}</strong>Checks</div>
+  </div>
+</header>
+
+<h2>Summary by Vendor</h2>
+${summaryTable('Vendor', groupTotals(data, vendorName), total)}
+
+<h2>Summary by Department</h2>
+${summaryTable('Department', groupTotals(data, item => departmentOf(item, chart)), total)}
+
+<section class="detail">
+<h2>Detail by Vendor</h2>
+${detailTable(data, total, chart, vendorName)}
+</section>
+
+${signatureBlock(warrantInfo.certification, total)}
+</body>
+</html>
+`
+}
+
+function summaryTable(heading: string, totals: Record<string, PaymentTypeTotals>, total: number): string {
+  const types = PAYMENT_TYPES.filter(type => Object.values(totals).some(amounts => amounts[type] !== 0))
+  const rows = Object.entries(totals)
+    .sort((a, b) => b[1].total - a[1].total)
+    .map(([name, amounts]) => `<tr><td>${escapeHtml(name)}</td>${
+      types.map(type => `<td class="num">${amounts[type] ? money(amounts[type]) : ''}</td>`).join('')
+    }<td class="num">${money(amounts.total)}</td><td class="num">${total ? ((amounts.total / total) * 100).toFixed(1) : '0.0'}%</td></tr>`)
+    .join('\n')
+
+  return `<table>
+<thead><tr><th>${heading}</th>${types.map(type => `<th class="num">${PAYMENT_TYPE_LABELS[type]}</th>`).join('')}<th class="num">Total</th><th class="num">%</th></tr></thead>
+<tbody>
+${rows}
+<tr class="grand"><td>TOTAL</td>${types.map(() => '<td></td>').join('')}<td class="num">${money(total)}</td><td class="num">100.0%</td></tr>
+</tbody>
+</table>`
+}
+
+// Items grouped by vendor in order of first appearance, each group closed
+// with a subtotal
+function detailTable(
+  data: WarrantItem[],
+  total: number,
+  chart: WarrantExport['chart'],
+  nameOf: (item: WarrantItem) => string,
+): string {
+  const vendors = new Map<string, WarrantItem[]>()
+  data.forEach(item => {
+    const key = `${item.vendorCode}|${nameOf(item)}`
+    vendors.set(key, [...(vendors.get(key) || []), item])
+  })
+
+  const groups = Array.from(vendors.values()).map(items => {
+    const { vendorCode } = items[0]
+    const vendorName = nameOf(items[0])
+    const subtotal = items.reduce((sum, item) => sum + item.amount, 0)
+    return `<tbody>
+<tr class="vendor"><th colspan="6">${escapeHtml(vendorName)} <span class="mono">${escapeHtml(vendorCode)}</span></th></tr>
+${items.map(item => `<tr><td class="mono">${escapeHtml(item.check)}</td><td>${escapeHtml(PAYMENT_TYPE_LABELS[item.paymentType])}</td><td>${escapeHtml(item.description)}</td><td class="mono">${escapeHtml(item.account)}</td><td>${escapeHtml(departmentOf(item, chart))}</td><td class="num">${money(item.amount)}</td></tr>`).join('\n')}
+<tr class="subtotal"><td colspan="5">${escapeHtml(vendorName)} Total</td><td class="num">${money(subtotal)}</td></tr>
+</tbody>`
+  })
+
+  return `<table>
+<thead><tr><th>Check #</th><th>Type</th><th>Description</th><th>Account</th><th>Department</th><th class="num">Amount</th></tr></thead>
+${groups.join('\n')}
+<tbody><tr class="grand"><td colspan="5">WARRANT TOTAL</td><td class="num">${money(total)}</td></tr></tbody>
+</table>`
+}
+
+// The certification wording printed on the warrant, or standard wording
+// when the parser didn't find any, followed by lines to sign
+function signatureBlock(certification: string[] | undefined, total: number): string {
+  const wording = certification && certification.length > 0
+    ? certification
+    : [
+      `TREASURER: I certify that the accounts listed above are correct and that there are funds available to pay them, totaling $${money(total)}.`,
+      `TO THE SELECTMEN: We have examined the accounts listed above and approve payment of $${money(total)} from the treasury.`,
+    ]
+
+  const signatures = ['Treasurer', ...Array.from({ length: BOARD_SIGNATURES }, () => 'Selectman / Board Member')]
+    .map(role => `<div class="signature">${role}<span style="float:right">Date</span></div>`)
+    .join('\n')
+
+  return `<section class="certification">
+<h2>Certification</h2>
+${wording.map(line => `<p>${escapeHtml(line)}</p>`).join('\n')}
+<div class="signatures">
+${signatures}
+</div>
+</section>`
+}
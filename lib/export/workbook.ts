@@ -0,0 +1,528 @@
+import * as XLSX from 'xlsx'
+import { accountSegmentLabel, hasAccountSegment } from '../accountCodes'
+import { BUDGET_STATUS_LABELS } from '../budget'
+import { resolveAccount, unknownAccounts } from '../chartOfAccounts'
+import { buildCheckRegister, CHECK_ISSUE_LABELS } from '../checkRegister'
+import { departmentOf } from '../departments'
+import { PAYMENT_TYPES, PAYMENT_TYPE_LABELS } from '../paymentTypes'
+import { REVIEW_FLAG_LABELS } from '../review'
+import type { AccountCodeLayout, BudgetComparison, ChartOfAccounts, Correction, PaymentType, ReviewFlag, VendorMaster, WarrantInfo, WarrantItem } from '../types'
+import { vendorNamer } from '../vendors'
+
+type Row = (string | number)[]
+export type PaymentTypeTotals = Record<PaymentType, number> & { total: number }
+
+export interface WarrantExport {
+  data: WarrantItem[]
+  warrantInfo: WarrantInfo
+  total: number
+  corrections?: Correction[]
+  // Set by the client so review skips the warrant's own archive entry
+  archiveId?: string
+  // Percent used at which budget lines are flagged, when not the default
+  budgetThreshold?: number
+  // Filled in by the export routes from lib/review, not sent by the client
+  reviewFlags?: ReviewFlag[]
+  // The municipality's chart of accounts, also looked up by the export routes
+  chart?: ChartOfAccounts | null
+  // Budget vs actual for the warrant's municipality and fiscal year, when a budget was imported
+  budget?: BudgetComparison | null
+  // The municipality's vendor master, whose canonical names the vendor summaries use
+  vendors?: VendorMaster | null
+  // The municipality's account code layouts, for the fund and object summaries
+  accountLayouts?: AccountCodeLayout[] | null
+}
+
+export const DETAIL_HEADINGS = ['Vendor Code', 'Vendor Name', 'Payment Type', 'Jrnl', 'Check #', 'Month', 'Description', 'Account Code', 'Department/Category', 'Amount', 'Encumbrance']
+const DETAIL_COLS = [
+  { wch: 12 }, { wch: 40 }, { wch: 12 }, { wch: 8 }, { wch: 10 }, { wch: 8 },
+  { wch: 35 }, { wch: 14 }, { wch: 40 }, { wch: 14 }, { wch: 14 },
+]
+// Added to the detail sheet when a chart of accounts resolves the codes
+const CHART_HEADINGS = ['Fund', 'Department', 'Function', 'Object']
+
+// Node Buffer of the .xlsx file (XLSX.write is typed as returning any)
+export function writeWorkbook(wb: XLSX.WorkBook) {
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+}
+
+export function buildWarrantWorkbook({
+  data,
+  warrantInfo,
+  total,
+  corrections = [],
+  reviewFlags = [],
+  chart,
+  budget,
+  vendors,
+  accountLayouts,
+}: WarrantExport): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new()
+
+  // Sheet 1: Detail
+  appendDetailSheet(wb, 'A-P Warrant Details', { data, warrantInfo, total, chart })
+
+  // Sheet 2: Summary by Vendor
+  const vendorTotals = groupTotals(data, vendorNamer(data, vendors))
+  const ws2 = XLSX.utils.aoa_to_sheet(summaryRows('Summary by Vendor', 'Vendor', vendorTotals, data, total))
+  ws2['!cols'] = [{ wch: 45 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(wb, ws2, 'Summary by Vendor')
+
+  // Sheet 3: Summary by Department
+  const deptTotals = groupTotals(data, item => departmentOf(item, chart))
+  const ws3 = XLSX.utils.aoa_to_sheet(summaryRows('Summary by Department', 'Department', deptTotals, data, total))
+  ws3['!cols'] = [{ wch: 30 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(wb, ws3, 'Summary by Department')
+
+  // Sheet 4: Summary by Fund and by Object Code, from the account codes'
+  // segments. The fund summary is left out when no code has a fund segment,
+  // as with the default expense and revenue layouts, rather than putting
+  // everything under "No Fund".
+  const byFund = hasAccountSegment(data, 'fund', accountLayouts)
+  const fundTotals = groupTotals(data, item => accountSegmentLabel(item, 'fund', accountLayouts, chart))
+  const objectTotals = groupTotals(data, item => accountSegmentLabel(item, 'object', accountLayouts, chart))
+  const ws4 = XLSX.utils.aoa_to_sheet([
+    ...byFund ? [...summaryRows('Summary by Fund', 'Fund', fundTotals, data, total), [], []] : [],
+    ...summaryRows('Summary by Object Code', 'Object Code', objectTotals, data, total),
+  ])
+  ws4['!cols'] = [{ wch: 40 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(wb, ws4, byFund ? 'Summary by Fund & Object' : 'Summary by Object')
+
+  // Sheet 5: Summary by Payment Type, so EFTs can be reconciled apart from checks
+  const typeData: Row[] = [
+    ['Summary by Payment Type'],
+    [],
+    ['Payment Type', 'Line Items', 'Checks', 'Total Amount', '% of Total'],
+  ]
+
+  PAYMENT_TYPES.forEach(type => {
+    const typeItems = data.filter(item => item.paymentType === type)
+    if (typeItems.length === 0) return
+    const amount = typeItems.reduce((sum, item) => sum + item.amount, 0)
+    const checks = new Set(typeItems.filter(item => item.check).map(item => item.check)).size
+    typeData.push([PAYMENT_TYPE_LABELS[type], typeItems.length, checks, amount, amount / total])
+  })
+
+  typeData.push([])
+  typeData.push(['TOTAL', data.length, new Set(data.filter(item => item.check).map(item => item.check)).size, total, 1])
+
+  const ws5 = XLSX.utils.aoa_to_sheet(typeData)
+  ws5['!cols'] = [{ wch: 20 }, { wch: 12 }, { wch: 10 }, { wch: 15 }, { wch: 12 }]
+  XLSX.utils.book_append_sheet(wb, ws5, 'Summary by Payment Type')
+
+  // Sheet 6: Check Register, one row per check for reconciling against the bank statement
+  appendCheckRegisterSheet(wb, data)
+
+  // Sheet 7: Manual Corrections made in the results grid before export
+  if (corrections.length > 0) {
+    appendCorrectionsSheet(wb, [], corrections.map(correction => ({ correction, tags: [] })))
+  }
+
+  // Sheet 8: Review, payments flagged as possible duplicates or unusual
+  if (reviewFlags.length > 0) {
+    appendReviewSheet(wb, [], reviewFlags.map(flag => ({ flag, item: data[flag.index], tags: [] })))
+  }
+
+  // Sheet 9: Account codes the chart of accounts doesn't list
+  if (chart) {
+    appendUnknownAccountsSheet(wb, [], [{ data, chart, tags: [] }])
+  }
+
+  // Sheet 10: Budget vs Actual
+  if (budget) {
+    appendBudgetSheet(wb, budget)
+  }
+
+  return wb
+}
+
+// One workbook for several warrants: combined summaries across all of them,
+// with every row tagged by municipality and warrant number, then a detail
+// sheet per warrant
+export function buildBatchWorkbook(warrants: WarrantExport[]): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new()
+
+  const namers = new Map(warrants.map(warrant => [warrant, vendorNamer(warrant.data, warrant.vendors)]))
+  appendCombinedSummary(wb, 'Combined by Vendor', 'Vendor', warrants, (item, warrant) => namers.get(warrant)!(item))
+  appendCombinedSummary(wb, 'Combined by Department', 'Department', warrants, (item, { chart }) => departmentOf(item, chart))
+  if (warrants.some(({ data, accountLayouts }) => hasAccountSegment(data, 'fund', accountLayouts))) {
+    appendCombinedSummary(wb, 'Combined by Fund', 'Fund', warrants,
+      (item, { accountLayouts, chart }) => accountSegmentLabel(item, 'fund', accountLayouts, chart))
+  }
+  appendCombinedSummary(wb, 'Combined by Object', 'Object Code', warrants,
+    (item, { accountLayouts, chart }) => accountSegmentLabel(item, 'object', accountLayouts, chart))
+
+  // Every line item across the batch
+  const itemData: Row[] = [
+    ['All Line Items'],
+    [],
+    ['Municipality', 'Warrant #', ...DETAIL_HEADINGS],
+  ]
+  warrants.forEach(({ data, warrantInfo }) => {
+    data.forEach(item => itemData.push([warrantInfo.municipality, warrantInfo.warrantNumber, ...detailRow(item)]))
+  })
+  const grandTotal = warrants.reduce((sum, warrant) => sum + warrant.total, 0)
+  itemData.push([])
+  itemData.push(['', '', '', '', '', '', '', '', '', '', 'TOTAL:', grandTotal])
+  const itemSheet = XLSX.utils.aoa_to_sheet(itemData)
+  itemSheet['!cols'] = [{ wch: 20 }, { wch: 10 }, ...DETAIL_COLS]
+  XLSX.utils.book_append_sheet(wb, itemSheet, 'All Line Items')
+
+  const corrections = warrants.flatMap(({ warrantInfo, corrections = [] }) =>
+    corrections.map(correction => ({ correction, tags: [warrantInfo.municipality, warrantInfo.warrantNumber] })))
+  if (corrections.length > 0) {
+    appendCorrectionsSheet(wb, ['Municipality', 'Warrant #'], corrections)
+  }
+
+  const reviewFlags = warrants.flatMap(({ data, warrantInfo, reviewFlags = [] }) =>
+    reviewFlags.map(flag => ({ flag, item: data[flag.index], tags: [warrantInfo.municipality, warrantInfo.warrantNumber] })))
+  if (reviewFlags.length > 0) {
+    appendReviewSheet(wb, ['Municipality', 'Warrant #'], reviewFlags)
+  }
+
+  const charted = warrants
+    .filter(warrant => warrant.chart)
+    .map(({ data, warrantInfo, chart }) => ({ data, chart: chart!, tags: [warrantInfo.municipality, warrantInfo.warrantNumber] }))
+  if (charted.length > 0) {
+    appendUnknownAccountsSheet(wb, ['Municipality', 'Warrant #'], charted)
+  }
+
+  const usedNames = new Set<string>(wb.SheetNames)
+  warrants.forEach(warrant => {
+    const name = uniqueSheetName(`${warrant.warrantInfo.municipality} ${warrant.warrantInfo.warrantNumber}`, usedNames)
+    appendDetailSheet(wb, name, warrant)
+  })
+
+  return wb
+}
+
+export function detailRow(item: WarrantItem): Row {
+  return [
+    item.vendorCode,
+    item.vendorName,
+    PAYMENT_TYPE_LABELS[item.paymentType],
+    item.journal,
+    item.check,
+    item.month,
+    item.description,
+    item.account,
+    item.deptCategory,
+    item.amount,
+    item.encumbrance,
+  ]
+}
+
+function appendDetailSheet(wb: XLSX.WorkBook, name: string, { data, warrantInfo, total, chart }: WarrantExport) {
+  const detailData: Row[] = [
+    ['A/P Warrant Details'],
+    [`${warrantInfo.municipality} - Warrant #${warrantInfo.warrantNumber} - ${warrantInfo.date}`],
+    [postingLabel(warrantInfo)],
+    chart ? [...DETAIL_HEADINGS, ...CHART_HEADINGS] : DETAIL_HEADINGS,
+  ]
+
+  data.forEach(item => {
+    if (!chart) {
+      detailData.push(detailRow(item))
+      return
+    }
+    const resolved = resolveAccount(chart, item.account)
+    detailData.push([
+      ...detailRow(item),
+      resolved?.fund || '',
+      resolved?.department || '',
+      resolved?.function || '',
+      resolved?.object || resolved?.description || '',
+    ])
+  })
+
+  // Add total row
+  detailData.push([])
+  detailData.push(['', '', '', '', '', '', '', '', 'TOTAL:', total, data.reduce((sum, item) => sum + item.encumbrance, 0)])
+
+  const ws = XLSX.utils.aoa_to_sheet(detailData)
+  ws['!cols'] = chart ? [...DETAIL_COLS, { wch: 20 }, { wch: 25 }, { wch: 25 }, { wch: 30 }] : DETAIL_COLS
+  XLSX.utils.book_append_sheet(wb, ws, name)
+}
+
+function appendBudgetSheet(wb: XLSX.WorkBook, budget: BudgetComparison) {
+  const rows: Row[] = [
+    ['Budget vs Actual'],
+    [`${budget.municipality} - Fiscal Year ${budget.fiscalYear} - year-to-date includes ${budget.priorWarrants} earlier warrant${budget.priorWarrants === 1 ? '' : 's'} - flagged at ${budget.threshold}% used`],
+    [],
+    ['Account Code', 'Description', 'Budgeted', 'Spent This Warrant', 'Spent Year-to-Date', 'Remaining', '% Used', 'Status'],
+  ]
+
+  budget.lines.forEach(line => {
+    rows.push([
+      line.account,
+      line.description,
+      line.budgeted,
+      line.spent,
+      line.yearToDate,
+      line.remaining,
+      line.percentUsed === null ? '' : line.percentUsed / 100,
+      line.status === 'ok' ? '' : line.budgeted === 0 ? 'No budget' : BUDGET_STATUS_LABELS[line.status],
+    ])
+  })
+
+  const { totals } = budget
+  rows.push([])
+  rows.push([
+    'TOTAL',
+    '',
+    totals.budgeted,
+    totals.spent,
+    totals.yearToDate,
+    totals.remaining,
+    totals.budgeted ? totals.yearToDate / totals.budgeted : '',
+    '',
+  ])
+
+  const ws = XLSX.utils.aoa_to_sheet(rows)
+  ws['!cols'] = [{ wch: 16 }, { wch: 35 }, { wch: 15 }, { wch: 18 }, { wch: 18 }, { wch: 15 }, { wch: 10 }, { wch: 14 }]
+  XLSX.utils.book_append_sheet(wb, ws, 'Budget vs Actual')
+}
+
+function appendCheckRegisterSheet(wb: XLSX.WorkBook, data: WarrantItem[]) {
+  const register = buildCheckRegister(data)
+  const rows: Row[] = [
+    ['Check Register'],
+    ['Checks and EFTs in number order, with gaps, duplicate numbers and checks paid to more than one vendor code noted'],
+    [],
+    ['Payment Type', 'Check #', 'Payee', 'Vendor Code', 'Line Items', 'Check Total', 'Issues'],
+  ]
+
+  register.checks.forEach(entry => {
+    const issues = register.issues.filter(issue => issue.check === entry.check && issue.paymentType === entry.paymentType)
+    rows.push([
+      PAYMENT_TYPE_LABELS[entry.paymentType],
+      entry.check,
+      entry.payee,
+      entry.vendorCodes.join(', '),
+      entry.lineCount,
+      entry.total,
+      issues.map(issue => `${CHECK_ISSUE_LABELS[issue.kind]}: ${issue.message}`).join('; '),
+    ])
+  })
+
+  rows.push([])
+  rows.push(['TOTAL', register.checks.length, '', '', register.checks.reduce((sum, entry) => sum + entry.lineCount, 0), register.total])
+  if (register.unnumbered.length > 0) {
+    const amount = register.unnumbered.reduce((sum, index) => sum + data[index].amount, 0)
+    rows.push(['No check #', '', '', '', register.unnumbered.length, amount])
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(rows)
+  ws['!cols'] = [{ wch: 14 }, { wch: 10 }, { wch: 40 }, { wch: 14 }, { wch: 12 }, { wch: 15 }, { wch: 70 }]
+  XLSX.utils.book_append_sheet(wb, ws, 'Check Register')
+}
+
+function appendUnknownAccountsSheet(
+  wb: XLSX.WorkBook,
+  tagHeadings: string[],
+  warrants: { data: WarrantItem[], chart: ChartOfAccounts, tags: string[] }[],
+) {
+  const rows: Row[] = [
+    ['Unknown Account Codes'],
+    ['Account codes on the warrant that are not in the chart of accounts'],
+    [],
+    [...tagHeadings, 'Account Code', 'Line Items', 'Amount'],
+  ]
+
+  let found = false
+  warrants.forEach(({ data, chart, tags }) => {
+    unknownAccounts(chart, data).forEach(account => {
+      const accountItems = data.filter(item => item.account === account)
+      rows.push([...tags, account, accountItems.length, accountItems.reduce((sum, item) => sum + item.amount, 0)])
+      found = true
+    })
+  })
+  if (!found) return
+
+  const ws = XLSX.utils.aoa_to_sheet(rows)
+  ws['!cols'] = [...tagHeadings.map(() => ({ wch: 16 })), { wch: 16 }, { wch: 12 }, { wch: 14 }]
+  XLSX.utils.book_append_sheet(wb, ws, 'Unknown Accounts')
+}
+
+function appendCorrectionsSheet(wb: XLSX.WorkBook, tagHeadings: string[], entries: { correction: Correction, tags: string[] }[]) {
+  const correctionData: Row[] = [
+    ['Manual Corrections'],
+    [],
+    [...tagHeadings, 'When', 'Action', 'Row', 'Vendor Code', 'Vendor Name', 'Field', 'Original Value', 'New Value'],
+  ]
+
+  entries.forEach(({ correction, tags }) => {
+    correctionData.push([
+      ...tags,
+      new Date(correction.at).toLocaleString('en-US'),
+      correction.action === 'edit' ? 'Edited' : correction.action === 'add' ? 'Added row' : 'Deleted row',
+      correction.row,
+      correction.vendorCode,
+      correction.vendorName,
+      correction.field,
+      correction.originalValue,
+      correction.newValue,
+    ])
+  })
+
+  const ws = XLSX.utils.aoa_to_sheet(correctionData)
+  ws['!cols'] = [
+    ...tagHeadings.map(() => ({ wch: 16 })),
+    { wch: 22 }, { wch: 12 }, { wch: 6 }, { wch: 12 },
+    { wch: 40 }, { wch: 14 }, { wch: 35 }, { wch: 35 },
+  ]
+  XLSX.utils.book_append_sheet(wb, ws, 'Manual Corrections')
+}
+
+function appendReviewSheet(wb: XLSX.WorkBook, tagHeadings: string[], entries: { flag: ReviewFlag, item: WarrantItem, tags: string[] }[]) {
+  const reviewData: Row[] = [
+    ['Review'],
+    ['Payments to check before signing: possible duplicates, round or unusually large amounts, and vendor name changes'],
+    [],
+    [...tagHeadings, 'Row', 'Vendor Code', 'Vendor Name', 'Check #', 'Description', 'Amount', 'Flag', 'Details'],
+  ]
+
+  entries.forEach(({ flag, item, tags }) => {
+    reviewData.push([
+      ...tags,
+      flag.index + 1,
+      item.vendorCode,
+      item.vendorName,
+      item.check,
+      item.description,
+      item.amount,
+      REVIEW_FLAG_LABELS[flag.kind],
+      flag.message,
+    ])
+  })
+
+  const ws = XLSX.utils.aoa_to_sheet(reviewData)
+  ws['!cols'] = [
+    ...tagHeadings.map(() => ({ wch: 16 })),
+    { wch: 6 }, { wch: 12 }, { wch: 40 }, { wch: 10 },
+    { wch: 35 }, { wch: 14 }, { wch: 20 }, { wch: 60 },
+  ]
+  XLSX.utils.book_append_sheet(wb, ws, 'Review')
+}
+
+// Rows per name and warrant, grouped by name with a subtotal after each group
+function appendCombinedSummary(
+  wb: XLSX.WorkBook,
+  title: string,
+  heading: string,
+  warrants: WarrantExport[],
+  keyOf: (item: WarrantItem, warrant: WarrantExport) => string,
+) {
+  const groups: Record<string, { warrantInfo: WarrantInfo, totals: PaymentTypeTotals }[]> = {}
+  warrants.forEach(warrant => {
+    const { data, warrantInfo } = warrant
+    Object.entries(groupTotals(data, item => keyOf(item, warrant))).forEach(([name, totals]) => {
+      if (!groups[name]) groups[name] = []
+      groups[name].push({ warrantInfo, totals })
+    })
+  })
+
+  const rows: Row[] = [
+    [title],
+    [],
+    [heading, 'Municipality', 'Warrant #', 'Date', ...PAYMENT_TYPES.map(type => PAYMENT_TYPE_LABELS[type]), 'Total Amount'],
+  ]
+
+  const grandTotals = emptyTotals()
+  Object.entries(groups)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .forEach(([name, entries]) => {
+      const subtotal = emptyTotals()
+      entries.forEach(({ warrantInfo, totals }) => {
+        rows.push([
+          name,
+          warrantInfo.municipality,
+          warrantInfo.warrantNumber,
+          warrantInfo.date,
+          ...PAYMENT_TYPES.map(type => totals[type]),
+          totals.total,
+        ])
+        mergeTotals(subtotal, totals)
+      })
+      rows.push([`${name} Total`, '', '', '', ...PAYMENT_TYPES.map(type => subtotal[type]), subtotal.total])
+      mergeTotals(grandTotals, subtotal)
+    })
+
+  rows.push([])
+  rows.push(['TOTAL', '', '', '', ...PAYMENT_TYPES.map(type => grandTotals[type]), grandTotals.total])
+
+  const ws = XLSX.utils.aoa_to_sheet(rows)
+  ws['!cols'] = [{ wch: 45 }, { wch: 20 }, { wch: 10 }, { wch: 12 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }]
+  XLSX.utils.book_append_sheet(wb, ws, title)
+}
+
+function emptyTotals(): PaymentTypeTotals {
+  return { prepaid: 0, current: 0, eft: 0, total: 0 }
+}
+
+function addToTotals(totals: PaymentTypeTotals, item: WarrantItem) {
+  totals[item.paymentType] += item.amount
+  totals.total += item.amount
+}
+
+function mergeTotals(into: PaymentTypeTotals, from: PaymentTypeTotals) {
+  PAYMENT_TYPES.forEach(type => { into[type] += from[type] })
+  into.total += from.total
+}
+
+export function groupTotals(data: WarrantItem[], keyOf: (item: WarrantItem) => string): Record<string, PaymentTypeTotals> {
+  const totals: Record<string, PaymentTypeTotals> = {}
+  data.forEach(item => {
+    const key = keyOf(item)
+    if (!totals[key]) totals[key] = emptyTotals()
+    addToTotals(totals[key], item)
+  })
+  return totals
+}
+
+// Summary sheet rows with one column per payment type, largest total first
+function summaryRows(
+  title: string,
+  heading: string,
+  totals: Record<string, PaymentTypeTotals>,
+  data: WarrantItem[],
+  total: number,
+): Row[] {
+  const rows: Row[] = [
+    [title],
+    [],
+    [heading, ...PAYMENT_TYPES.map(type => PAYMENT_TYPE_LABELS[type]), 'Total Amount', '% of Total'],
+  ]
+
+  Object.entries(totals)
+    .sort((a, b) => b[1].total - a[1].total)
+    .forEach(([name, amounts]) => {
+      rows.push([name, ...PAYMENT_TYPES.map(type => amounts[type]), amounts.total, amounts.total / total])
+    })
+
+  const grandTotals = emptyTotals()
+  data.forEach(item => addToTotals(grandTotals, item))
+
+  rows.push([])
+  rows.push(['TOTAL', ...PAYMENT_TYPES.map(type => grandTotals[type]), total, 1])
+
+  return rows
+}
+
+// "Period 3 - Fiscal Year 2025", or as much of it as the header has
+export function postingLabel({ period, fiscalYear }: WarrantInfo): string {
+  return [period && `Period ${period}`, fiscalYear && `Fiscal Year ${fiscalYear}`].filter(Boolean).join(' - ')
+}
+
+// Excel sheet names are limited to 31 characters, can't contain []:*?/\
+// and must be unique within the workbook
+function uniqueSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\[\]:*?\/\\]/g, '-').slice(0, 31).trim() || 'Warrant'
+  let candidate = base
+  for (let n = 2; used.has(candidate); n++) {
+    const suffix = ` (${n})`
+    candidate = base.slice(0, 31 - suffix.length) + suffix
+  }
+  used.add(candidate)
+  return candidate
+}
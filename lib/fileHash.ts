@@ -0,0 +1,5 @@
+import { createHash } from 'crypto'
+
+export function hashFile(data: ArrayBuffer): string {
+  return createHash('sha256').update(Buffer.from(data)).digest('hex')
+}
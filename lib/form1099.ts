@@ -0,0 +1,172 @@
+import { chartKey, resolveAccount } from './chartOfAccounts'
+import { PAYMENT_TYPES } from './paymentTypes'
+import { summarizeWarrant } from './store/summary'
+import type {
+  ArchivedWarrant,
+  ChartOfAccounts,
+  Form1099Exclusion,
+  Form1099Options,
+  Form1099Payment,
+  Form1099Report,
+  Form1099Vendor,
+  PaymentType,
+} from './types'
+import { parseWarrantDate } from './warrantDate'
+
+export const DEFAULT_1099_THRESHOLD = 600
+
+// Every payment type counts by default. EFTs can pay vendors for services as
+// well as remit withholding and taxes, so those are left out by marking
+// their accounts not reportable in the chart of accounts, or by excluding
+// the type through FORM_1099_EXCLUDED_PAYMENT_TYPES or ?exclude=
+export const DEFAULT_1099_EXCLUDED_PAYMENT_TYPES: PaymentType[] = []
+
+export const FORM_1099_EXCLUSION_LABELS: Record<Form1099Exclusion, string> = {
+  'payment-type': 'Payment type not reportable',
+  account: 'Account not reportable',
+}
+
+// FORM_1099_THRESHOLD and FORM_1099_EXCLUDED_PAYMENT_TYPES (comma-separated,
+// or "none") override the defaults
+export function form1099Defaults(): Pick<Form1099Options, 'threshold' | 'excludedPaymentTypes'> {
+  const threshold = parseFloat(process.env.FORM_1099_THRESHOLD || '')
+  const types = process.env.FORM_1099_EXCLUDED_PAYMENT_TYPES
+  return {
+    threshold: isNaN(threshold) ? DEFAULT_1099_THRESHOLD : threshold,
+    excludedPaymentTypes: types === undefined ? DEFAULT_1099_EXCLUDED_PAYMENT_TYPES : parsePaymentTypes(types),
+  }
+}
+
+export function parsePaymentTypes(value: string): PaymentType[] {
+  const names = value.toLowerCase().split(',').map(name => name.trim())
+  return PAYMENT_TYPES.filter(type => names.includes(type))
+}
+
+// ?year=&threshold=&municipality=&exclude=prepaid,eft; the year defaults to
+// the last calendar year, which is the one being filed in January
+export function parseForm1099Options(params: URLSearchParams): Form1099Options {
+  const defaults = form1099Defaults()
+  const year = parseInt(params.get('year') || '', 10)
+  const threshold = parseFloat(params.get('threshold') || '')
+  const exclude = params.get('exclude')
+  return {
+    year: isNaN(year) ? new Date().getFullYear() - 1 : year,
+    threshold: isNaN(threshold) ? defaults.threshold : threshold,
+    municipality: params.get('municipality') || undefined,
+    excludedPaymentTypes: exclude === null ? defaults.excludedPaymentTypes : parsePaymentTypes(exclude),
+  }
+}
+
+// Calendar years with at least one dated warrant, newest first
+export function warrantYears(warrants: Pick<ArchivedWarrant, 'warrantInfo'>[]): number[] {
+  const years = new Set<number>()
+  warrants.forEach(warrant => {
+    const date = parseWarrantDate(warrant.warrantInfo.date)
+    if (date) years.add(date.getFullYear())
+  })
+  return Array.from(years).sort((a, b) => b - a)
+}
+
+// Totals each vendor code's payments over the calendar year of the warrant
+// dates, per municipality since each files its own 1099s. charts is keyed by
+// chartKey. Payments of an excluded type, or to an account the chart marks
+// as not reportable, are listed but left out of the totals.
+export function buildForm1099Report(
+  warrants: ArchivedWarrant[],
+  charts: Record<string, ChartOfAccounts>,
+  options: Form1099Options,
+): Form1099Report {
+  const { year, threshold, municipality, excludedPaymentTypes } = options
+  const inYear: ArchivedWarrant[] = []
+  const undated: ArchivedWarrant[] = []
+  warrants.forEach(warrant => {
+    if (municipality && chartKey(warrant.warrantInfo.municipality) !== chartKey(municipality)) return
+    const date = parseWarrantDate(warrant.warrantInfo.date)
+    if (!date) {
+      undated.push(warrant)
+    } else if (date.getFullYear() === year) {
+      inYear.push(warrant)
+    }
+  })
+
+  const vendors = new Map<string, Form1099Vendor>()
+  const checks = new Map<string, Set<string>>()
+  inYear.forEach(warrant => {
+    const { warrantInfo } = warrant
+    const chart = charts[chartKey(warrantInfo.municipality)]
+    warrant.items.forEach((item, index) => {
+      const code = item.vendorCode.trim() || item.vendorName.trim()
+      if (!code) return
+      const key = `${chartKey(warrantInfo.municipality)}:${code}`
+      let vendor = vendors.get(key)
+      if (!vendor) {
+        vendor = {
+          municipality: warrantInfo.municipality,
+          vendorCode: item.vendorCode,
+          vendorName: item.vendorName,
+          total: 0,
+          paymentCount: 0,
+          excludedTotal: 0,
+          eligible: false,
+          warrants: [],
+          checks: [],
+          payments: [],
+        }
+        vendors.set(key, vendor)
+        checks.set(key, new Set())
+      }
+
+      const payment: Form1099Payment = {
+        warrantId: warrant.id,
+        warrantNumber: warrantInfo.warrantNumber,
+        date: warrantInfo.date,
+        check: item.check,
+        paymentType: item.paymentType,
+        account: item.account,
+        description: item.description,
+        amount: item.amount,
+      }
+      const exclusion = exclusionFor(payment, chart, excludedPaymentTypes)
+      vendor.payments.push(exclusion ? { ...payment, excluded: exclusion } : payment)
+      if (exclusion) {
+        vendor.excludedTotal += item.amount
+        return
+      }
+
+      vendor.total += item.amount
+      if (!vendor.warrants.includes(warrantInfo.warrantNumber)) vendor.warrants.push(warrantInfo.warrantNumber)
+      if (item.check && !vendor.checks.includes(item.check)) vendor.checks.push(item.check)
+      checks.get(key)!.add(item.check ? `${warrant.id}:${item.paymentType}:${item.check}` : `${warrant.id}:#${index}`)
+    })
+  })
+
+  const list = Array.from(vendors.entries()).map(([key, vendor]) => {
+    vendor.paymentCount = checks.get(key)!.size
+    vendor.eligible = vendor.total >= threshold - 0.005
+    return vendor
+  })
+
+  return {
+    ...options,
+    vendors: list.sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.total - a.total),
+    eligibleCount: list.filter(vendor => vendor.eligible).length,
+    total: list.reduce((sum, vendor) => sum + vendor.total, 0),
+    excludedTotal: list.reduce((sum, vendor) => sum + vendor.excludedTotal, 0),
+    warrants: inYear.map(summarizeWarrant).sort((a, b) => warrantTime(a) - warrantTime(b)),
+    undated: undated.map(summarizeWarrant),
+  }
+}
+
+function exclusionFor(
+  payment: Form1099Payment,
+  chart: ChartOfAccounts | undefined,
+  excludedPaymentTypes: PaymentType[],
+): Form1099Exclusion | undefined {
+  if (excludedPaymentTypes.includes(payment.paymentType)) return 'payment-type'
+  if (chart && payment.account.trim() && resolveAccount(chart, payment.account)?.reportable1099 === false) return 'account'
+  return undefined
+}
+
+function warrantTime(warrant: Pick<ArchivedWarrant, 'warrantInfo'>): number {
+  return parseWarrantDate(warrant.warrantInfo.date)?.getTime() ?? 0
+}
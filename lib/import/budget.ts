@@ -0,0 +1,41 @@
+import { parseAmount } from '../parser/patterns'
+import type { BudgetAccount } from '../types'
+import { findColumns, readSheetRows } from './spreadsheet'
+
+type BudgetField = keyof BudgetAccount
+
+const COLUMN_ALIASES: Record<BudgetField, string[]> = {
+  account: ['account', 'account code', 'account number', 'acct', 'code'],
+  description: ['description', 'account description', 'title', 'name'],
+  amount: ['budget', 'budgeted', 'amount', 'appropriation', 'appropriated', 'approved', 'approved budget'],
+}
+
+export function parseBudgetFile(data: ArrayBuffer): BudgetAccount[] {
+  const rows = readSheetRows(data)
+  const layout = findColumns<BudgetField>(rows, COLUMN_ALIASES, 'account')
+  if (!layout) {
+    throw new Error('No account code column found; expected a heading such as "Account" or "Account Code"')
+  }
+  if (layout.columns.amount === -1) {
+    throw new Error('No budget column found; expected a heading such as "Budget" or "Appropriation"')
+  }
+
+  const { headerIndex, columns } = layout
+  const accounts: BudgetAccount[] = []
+  rows.slice(headerIndex + 1).forEach(row => {
+    const account = row[columns.account]
+    if (!account || !/\d/.test(account)) return
+    // Spreadsheets often show money as "$1,234.00" or "(500.00)"
+    const raw = (row[columns.amount] || '').replace(/[$\s]/g, '')
+    const negative = /^\(.*\)$/.test(raw)
+    const amount = parseAmount(raw.replace(/[()]/g, '')) || 0
+    accounts.push({
+      account,
+      description: columns.description === -1 ? '' : row[columns.description] || '',
+      amount: negative ? -amount : amount,
+    })
+  })
+
+  if (accounts.length === 0) throw new Error('The budget has no account rows')
+  return accounts
+}
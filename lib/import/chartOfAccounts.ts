@@ -0,0 +1,51 @@
+import { normalizeAccountCode } from '../chartOfAccounts'
+import type { ChartAccount } from '../types'
+import { findColumns, readSheetRows } from './spreadsheet'
+
+type ChartField = keyof ChartAccount
+
+const COLUMN_ALIASES: Record<ChartField, string[]> = {
+  code: ['account', 'account code', 'account number', 'acct', 'code'],
+  fund: ['fund', 'fund name', 'fund description'],
+  department: ['department', 'dept', 'department name', 'department description'],
+  function: ['function', 'division', 'function description', 'division description'],
+  object: ['object', 'object description'],
+  description: ['description', 'account description', 'title', 'name'],
+  reportable1099: ['1099', '1099 reportable', 'reportable', 'form 1099'],
+}
+
+// "Y", "Yes", "X" or a box name like "NEC" mark an account reportable;
+// "N", "No" or "0" mark it not; blank leaves it unset
+function parseReportable(value: string): boolean | undefined {
+  const cell = value.trim().toLowerCase()
+  if (!cell) return undefined
+  return !['n', 'no', 'false', '0', 'none', 'exempt'].includes(cell)
+}
+
+export function parseChartFile(data: ArrayBuffer): ChartAccount[] {
+  const rows = readSheetRows(data)
+  const layout = findColumns<ChartField>(rows, COLUMN_ALIASES, 'code')
+  if (!layout) {
+    throw new Error('No account code column found; expected a heading such as "Account" or "Account Code"')
+  }
+
+  const { headerIndex, columns } = layout
+  const accounts: ChartAccount[] = []
+  rows.slice(headerIndex + 1).forEach(row => {
+    const code = row[columns.code]
+    if (!code || !/\d/.test(code)) return
+    const value = (field: ChartField) => columns[field] === -1 ? '' : row[columns[field]] || ''
+    accounts.push({
+      code: normalizeAccountCode(code),
+      fund: value('fund'),
+      department: value('department'),
+      function: value('function'),
+      object: value('object'),
+      description: value('description'),
+      reportable1099: parseReportable(value('reportable1099')),
+    })
+  })
+
+  if (accounts.length === 0) throw new Error('The chart of accounts has no account rows')
+  return accounts
+}
@@ -0,0 +1,30 @@
+import * as XLSX from 'xlsx'
+
+// Reads the first sheet of a CSV or XLSX upload as rows of trimmed strings
+export function readSheetRows(data: ArrayBuffer): string[][] {
+  const wb = XLSX.read(data, { type: 'array', raw: false })
+  const sheet = wb.Sheets[wb.SheetNames[0]]
+  if (!sheet) throw new Error('The file is empty')
+
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false })
+    .map(row => row.map(cell => String(cell).trim()))
+}
+
+// Finds the heading row and each field's column from the accepted headings
+// (compared case-insensitively). The heading row may sit below a few title
+// rows; it is the first row containing the key field. Missing fields get -1.
+export function findColumns<F extends string>(
+  rows: string[][],
+  aliases: Record<F, string[]>,
+  keyField: F,
+): { headerIndex: number, columns: Record<F, number> } | null {
+  const headerIndex = rows.findIndex(row => row.some(cell => aliases[keyField].includes(cell.toLowerCase())))
+  if (headerIndex === -1) return null
+
+  const headings = rows[headerIndex].map(cell => cell.toLowerCase())
+  const columns = {} as Record<F, number>
+  ;(Object.keys(aliases) as F[]).forEach(field => {
+    columns[field] = headings.findIndex(heading => aliases[field].includes(heading))
+  })
+  return { headerIndex, columns }
+}
@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto'
+import { parsePdf } from './parsePdf'
+import type { ParseFailure, ParsedPdf, ParsePdfOptions } from './parsePdf'
+import type { ParseJob } from './types'
+
+interface JobEntry {
+  job: ParseJob
+  result: ParsedPdf | ParseFailure | null
+  controller: AbortController
+}
+
+// Finished jobs are forgotten this long after they end
+const JOB_TTL_MS = 30 * 60 * 1000
+
+// Jobs live in this server process's memory, so polling has to reach the
+// process that started the job. Kept on globalThis so dev-mode module
+// reloads don't lose running jobs.
+const registry = globalThis as typeof globalThis & { parseJobs?: Map<string, JobEntry> }
+const jobs = registry.parseJobs || (registry.parseJobs = new Map())
+
+// Jobs need the process that started them to keep running after the
+// response and to answer every poll, which serverless functions don't do.
+// PARSE_JOBS=true or false overrides the guess.
+export function parseJobsEnabled(): boolean {
+  const setting = process.env.PARSE_JOBS
+  if (setting) return setting === 'true'
+  return !process.env.VERCEL
+}
+
+// Starts parsing in the background and returns at once
+export function startParseJob(arrayBuffer: ArrayBuffer, fileName: string, options: Pick<ParsePdfOptions, 'formatId' | 'force' | 'replaceArchived'> = {}): ParseJob {
+  pruneJobs()
+
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      fileName,
+      status: 'running',
+      progress: { stage: 'extracting', pagesExtracted: 0, pagesOcrd: 0, pageCount: null, itemsParsed: 0, reconciled: false },
+      createdAt: new Date().toISOString(),
+    },
+    result: null,
+    controller: new AbortController(),
+  }
+  jobs.set(entry.job.id, entry)
+
+  const { signal } = entry.controller
+  parsePdf(arrayBuffer, fileName, {
+    ...options,
+    signal,
+    onProgress: progress => {
+      if (!signal.aborted) entry.job.progress = progress
+    },
+  })
+    .then(result => {
+      if (signal.aborted) return
+      entry.result = result
+      finish(entry, result.success ? { status: 'done' } : { status: 'failed', error: result.error })
+    })
+    .catch(error => {
+      if (signal.aborted) return
+      console.error('Parse job error:', error)
+      finish(entry, { status: 'failed', error: error instanceof Error ? error.message : 'Failed to parse PDF' })
+    })
+
+  return entry.job
+}
+
+export function getParseJob(id: string): ParseJob | null {
+  return jobs.get(id)?.job ?? null
+}
+
+// The parse result once the job has finished, including failures the
+// document itself caused; null while running or after cancellation
+export function getParseJobResult(id: string): ParsedPdf | ParseFailure | null {
+  return jobs.get(id)?.result ?? null
+}
+
+// Stops a running job. Returns false for unknown jobs; finished jobs are
+// left as they are.
+export function cancelParseJob(id: string): boolean {
+  const entry = jobs.get(id)
+  if (!entry) return false
+  if (entry.job.status === 'running') {
+    entry.controller.abort()
+    finish(entry, { status: 'canceled' })
+  }
+  return true
+}
+
+function finish(entry: JobEntry, changes: Pick<ParseJob, 'status' | 'error'>) {
+  entry.job = { ...entry.job, ...changes, finishedAt: new Date().toISOString() }
+}
+
+function pruneJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS
+  jobs.forEach((entry, id) => {
+    if (entry.job.finishedAt && Date.parse(entry.job.finishedAt) < cutoff) jobs.delete(id)
+  })
+}
@@ -0,0 +1,27 @@
+import { ocrSpaceProvider } from './ocrSpace'
+import { createReplayProvider, withRecording } from './replay'
+import { tesseractProvider } from './tesseract'
+import type { OcrProvider } from './types'
+
+export type { OcrOptions, OcrProvider, OcrResult } from './types'
+
+const liveProviders: Record<string, OcrProvider> = {
+  [ocrSpaceProvider.name]: ocrSpaceProvider,
+  [tesseractProvider.name]: tesseractProvider,
+}
+
+// Selected with OCR_PROVIDER: "ocrspace" (default), "tesseract" or "replay".
+// The replay provider serves output previously recorded from the engine named
+// by OCR_REPLAY_ENGINE; set OCR_RECORD_FIXTURES=true to record live output.
+export function getOcrProvider(name = process.env.OCR_PROVIDER || ocrSpaceProvider.name): OcrProvider {
+  if (name === 'replay') {
+    return createReplayProvider(process.env.OCR_REPLAY_ENGINE || ocrSpaceProvider.name)
+  }
+
+  const provider = liveProviders[name]
+  if (!provider) {
+    throw new Error(`Unknown OCR provider "${name}". Expected one of: ${[...Object.keys(liveProviders), 'replay'].join(', ')}`)
+  }
+
+  return process.env.OCR_RECORD_FIXTURES === 'true' ? withRecording(provider) : provider
+}
@@ -0,0 +1,40 @@
+import type { LayoutWord } from '../types'
+
+export type PlacedWord = Omit<LayoutWord, 'line'>
+
+// Groups one page's OCR words into rows by their vertical centers and
+// orders each row left to right. Words within half the typical word height
+// of a row's first word share its row.
+export function arrangeWords(words: PlacedWord[]): LayoutWord[] {
+  const placed = words.filter(word => word.text.trim())
+  if (placed.length === 0) return []
+
+  const heights = placed.map(word => word.height).sort((a, b) => a - b)
+  const tolerance = heights[Math.floor(heights.length / 2)] / 2
+  const center = (word: PlacedWord) => word.top + word.height / 2
+
+  const rows: PlacedWord[][] = []
+  ;[...placed]
+    .sort((a, b) => center(a) - center(b) || a.left - b.left)
+    .forEach(word => {
+      const row = rows[rows.length - 1]
+      if (row && Math.abs(center(row[0]) - center(word)) <= tolerance) {
+        row.push(word)
+      } else {
+        rows.push([word])
+      }
+    })
+
+  return rows.flatMap((row, line) => row
+    .sort((a, b) => a.left - b.left)
+    .map(word => ({ ...word, text: word.text.trim(), line })))
+}
+
+// One page's arranged words as text, a row per line
+export function pageText(words: LayoutWord[]): string {
+  const lines: string[] = []
+  words.forEach(word => {
+    lines[word.line] = lines[word.line] ? `${lines[word.line]} ${word.text}` : word.text
+  })
+  return Array.from(lines, line => line || '').join('\n')
+}
@@ -0,0 +1,83 @@
+import type { LayoutWord } from '../types'
+import { arrangeWords, pageText } from './layout'
+import { PAGE_SEPARATOR } from './types'
+import type { OcrOptions, OcrProvider, OcrResult } from './types'
+
+interface OverlayWord {
+  WordText: string
+  Left: number
+  Top: number
+  Height: number
+  Width: number
+}
+
+interface ParsedPage {
+  ParsedText?: string
+  TextOverlay?: { Lines?: { Words?: OverlayWord[] }[] }
+}
+
+export const ocrSpaceProvider: OcrProvider = {
+  name: 'ocrspace',
+
+  async extractText(pdf: ArrayBuffer, _filename: string, { onPage, signal }: OcrOptions = {}): Promise<OcrResult> {
+    const apiKey = process.env.OCR_SPACE_API_KEY
+    if (!apiKey) {
+      throw new Error('OCR_SPACE_API_KEY is not set')
+    }
+
+    // Convert ArrayBuffer to base64
+    const base64 = Buffer.from(pdf).toString('base64')
+    const base64Data = `data:application/pdf;base64,${base64}`
+
+    // Call OCR.space API
+    const formData = new FormData()
+    formData.append('base64Image', base64Data)
+    formData.append('language', 'eng')
+    // The overlay has each word's box, for rebuilding the table's columns
+    formData.append('isOverlayRequired', 'true')
+    formData.append('filetype', 'PDF')
+    formData.append('detectOrientation', 'true')
+    formData.append('scale', 'true')
+    formData.append('OCREngine', '2') // Engine 2 is better for most documents
+
+    const response = await fetch('https://api.ocr.space/parse/image', {
+      method: 'POST',
+      headers: {
+        'apikey': apiKey,
+      },
+      body: formData,
+      signal,
+    })
+
+    if (!response.ok) {
+      throw new Error(`OCR API error: ${response.status}`)
+    }
+
+    const result = await response.json()
+
+    if (result.IsErroredOnProcessing) {
+      throw new Error(result.ErrorMessage || 'OCR processing failed')
+    }
+
+    // Combine text from all pages, separated by form feeds. Pages with an
+    // overlay are rebuilt from their words so the text and boxes agree.
+    const words: LayoutWord[] = []
+    const pages: string[] = (result.ParsedResults || []).map((page: ParsedPage, index: number) => {
+      const overlay = (page.TextOverlay?.Lines || []).flatMap(line => line.Words || [])
+      if (overlay.length === 0) return page.ParsedText || ''
+      const arranged = arrangeWords(overlay.map(word => ({
+        text: word.WordText,
+        page: index + 1,
+        left: word.Left,
+        top: word.Top,
+        width: word.Width,
+        height: word.Height,
+      })))
+      words.push(...arranged)
+      return pageText(arranged)
+    })
+
+    onPage?.(pages.length, pages.length)
+    return { text: pages.join(PAGE_SEPARATOR), words: words.length > 0 ? words : undefined }
+  },
+}
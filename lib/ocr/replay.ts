@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { hashFile } from '../fileHash'
+import type { LayoutWord } from '../types'
+import { PAGE_SEPARATOR } from './types'
+import type { OcrOptions, OcrProvider, OcrResult } from './types'
+
+// Recorded OCR output lives at <OCR_FIXTURES_DIR>/<sha256 of the PDF>/<engine>.txt
+// so the same document can hold output from several engines side by side.
+// Word boxes, when the engine gave any, sit beside it in <engine>.words.json.
+function fixturesDir(): string {
+  return process.env.OCR_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'ocr')
+}
+
+function fixturePath(pdf: ArrayBuffer, engine: string, extension = 'txt'): string {
+  return path.join(fixturesDir(), hashFile(pdf), `${engine}.${extension}`)
+}
+
+export function createReplayProvider(engine: string): OcrProvider {
+  return {
+    name: `replay:${engine}`,
+
+    async extractText(pdf: ArrayBuffer, filename: string, { onPage }: OcrOptions = {}): Promise<OcrResult> {
+      const file = fixturePath(pdf, engine)
+      let text: string
+      try {
+        text = await fs.readFile(file, 'utf8')
+      } catch {
+        throw new Error(`No recorded ${engine} OCR output for ${filename} (expected ${file})`)
+      }
+
+      let words: LayoutWord[] | undefined
+      try {
+        words = JSON.parse(await fs.readFile(fixturePath(pdf, engine, 'words.json'), 'utf8'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      }
+
+      const pages = text.split(PAGE_SEPARATOR).length
+      onPage?.(pages, pages)
+      return { text, words }
+    },
+  }
+}
+
+// Wraps a live provider and saves everything it returns as a fixture
+export function withRecording(provider: OcrProvider): OcrProvider {
+  return {
+    name: provider.name,
+
+    async extractText(pdf: ArrayBuffer, filename: string, options?: OcrOptions): Promise<OcrResult> {
+      const result = await provider.extractText(pdf, filename, options)
+      const file = fixturePath(pdf, provider.name)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, result.text, 'utf8')
+      if (result.words) {
+        await fs.writeFile(fixturePath(pdf, provider.name, 'words.json'), JSON.stringify(result.words), 'utf8')
+      }
+      return result
+    },
+  }
+}
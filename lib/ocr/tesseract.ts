@@ -0,0 +1,57 @@
+import type { LayoutWord } from '../types'
+import { arrangeWords, pageText } from './layout'
+import { PAGE_SEPARATOR } from './types'
+import type { OcrOptions, OcrProvider, OcrResult } from './types'
+
+// Runs entirely on this machine: pdf2pic (GraphicsMagick + Ghostscript)
+// rasterizes each page and Tesseract.js recognizes it. Set
+// TESSERACT_LANG_PATH to a directory holding eng.traineddata to avoid
+// downloading the language data on first use.
+export const tesseractProvider: OcrProvider = {
+  name: 'tesseract',
+
+  async extractText(pdf: ArrayBuffer, _filename: string, { onPage, signal }: OcrOptions = {}): Promise<OcrResult> {
+    const { fromBuffer } = await import('pdf2pic')
+    const { createWorker } = await import('tesseract.js')
+
+    const convert = fromBuffer(Buffer.from(pdf), {
+      density: 300,
+      format: 'png',
+      width: 2550,
+      height: 3300,
+      preserveAspectRatio: true,
+    })
+    const pages = await convert.bulk(-1, { responseType: 'buffer' })
+    signal?.throwIfAborted()
+
+    const langPath = process.env.TESSERACT_LANG_PATH
+    const worker = await createWorker('eng', undefined, langPath ? { langPath } : {})
+
+    try {
+      const pageTexts: string[] = []
+      const words: LayoutWord[] = []
+      for (const page of pages) {
+        signal?.throwIfAborted()
+        if (page.buffer) {
+          const { data } = await worker.recognize(page.buffer)
+          const arranged = arrangeWords(data.words.map(word => ({
+            text: word.text,
+            page: pageTexts.length + 1,
+            left: word.bbox.x0,
+            top: word.bbox.y0,
+            width: word.bbox.x1 - word.bbox.x0,
+            height: word.bbox.y1 - word.bbox.y0,
+          })))
+          words.push(...arranged)
+          pageTexts.push(arranged.length > 0 ? pageText(arranged) : data.text)
+        } else {
+          pageTexts.push('')
+        }
+        onPage?.(pageTexts.length, pages.length)
+      }
+      return { text: pageTexts.join(PAGE_SEPARATOR), words: words.length > 0 ? words : undefined }
+    } finally {
+      await worker.terminate()
+    }
+  },
+}
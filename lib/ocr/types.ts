@@ -0,0 +1,23 @@
+import type { LayoutWord } from '../types'
+
+// Providers join pages with a form feed so parsers can report source pages
+export const PAGE_SEPARATOR = '\n\f'
+
+export interface OcrOptions {
+  // Called as pages are recognized; providers that OCR the whole document in
+  // one request call it once at the end
+  onPage?(done: number, total: number): void
+  signal?: AbortSignal
+}
+
+export interface OcrResult {
+  text: string
+  // Word boxes, for engines that report them. The text of those pages is
+  // built from the words, so each word's line matches the text.
+  words?: LayoutWord[]
+}
+
+export interface OcrProvider {
+  name: string
+  extractText(pdf: ArrayBuffer, filename: string, options?: OcrOptions): Promise<OcrResult>
+}
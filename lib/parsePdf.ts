@@ -0,0 +1,366 @@
+import pdf from 'pdf-parse'
+import { accountStructureWarnings, splitAccounts } from './accountCodes'
+import { unknownAccounts } from './chartOfAccounts'
+import { hashFile } from './fileHash'
+import { getOcrProvider } from './ocr'
+import { detectFormats, parseWarrant } from './parser'
+import type { FormatScore, ParseOutcome } from './parser'
+import { reconcile } from './reconcile'
+import { findWarrantByHash, saveWarrant } from './store/archive'
+import { getAccountLayouts } from './store/accountStructures'
+import { getChart } from './store/charts'
+import { cacheParseResult, getCachedExtraction, getCachedParse } from './store/parseCache'
+import type { CachedExtraction } from './store/parseCache'
+import { getVendorMaster } from './store/vendors'
+import type { ControlTotal, LayoutWord, ParseProgress, ReconciliationReport, WarrantInfo, WarrantItem } from './types'
+import { normalizeVendors } from './vendors'
+
+export type ExtractionMethod = 'text-layer' | 'ocr'
+
+// The body /api/parse responds with, and a finished job's result
+export interface ParsedPdf {
+  success: true
+  data: WarrantItem[]
+  warrantInfo: WarrantInfo
+  total: number
+  reconciliation: ReconciliationReport
+  controlTotals: ControlTotal[]
+  extractionMethod: ExtractionMethod
+  ocrProvider?: string
+  format: ParseOutcome['format']
+  formatScores: FormatScore[]
+  // The PDF's archive entry, also when archiving was off and it was archived
+  // before, so exports don't review it against its own archived copy
+  archiveId?: string
+  // The PDF was archived before, and that entry was kept rather than this parse
+  alreadyArchived: boolean
+  accountWarnings: string[]
+  // Parsed earlier from the same PDF bytes with the same parser version
+  cached: boolean
+}
+
+export interface ParseFailure {
+  success: false
+  error: string
+  extractionMethod?: ExtractionMethod
+  ocrProvider?: string
+  format?: ParseOutcome['format']
+  formatScores?: FormatScore[]
+  debug?: string
+}
+
+export interface ParsePdfOptions {
+  formatId?: string
+  // Ignore cached text and results, and replace them
+  force?: boolean
+  // Save the result to the warrant archive (default true)
+  archive?: boolean
+  // Replace an archived entry for the same PDF, its edits and corrections
+  // included, with this parse (default false)
+  replaceArchived?: boolean
+  onProgress?: (progress: ParseProgress) => void
+  signal?: AbortSignal
+}
+
+// Parsed items as they are shown, exported and archived
+export interface CheckedItems {
+  items: WarrantItem[]
+  total: number
+  reconciliation: ReconciliationReport
+  accountWarnings: string[]
+}
+
+interface TextItem {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+}
+
+// The parts of a pdf.js page proxy the text layer reader uses, as pdf-parse's
+// bundled pdf.js 1.10 defines them
+interface PdfPage {
+  pageIndex: number
+  getViewport(scale: number, rotate?: number): { width: number, height: number }
+  getTextContent(params?: { normalizeWhitespace?: boolean }): Promise<{ items: TextItem[] }>
+}
+
+// Minimum format score before the embedded text layer is trusted over OCR
+const MIN_TEXT_LAYER_SCORE = 0.5
+
+// Extracts, parses, reconciles and archives one warrant PDF. Problems with
+// the document itself come back as a ParseFailure; anything else, including
+// cancellation through the signal, is thrown.
+export async function parsePdf(
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  { formatId, force, archive = true, replaceArchived = false, onProgress, signal }: ParsePdfOptions = {},
+): Promise<ParsedPdf | ParseFailure> {
+  const progress: ParseProgress = {
+    stage: 'extracting',
+    pagesExtracted: 0,
+    pagesOcrd: 0,
+    pageCount: null,
+    itemsParsed: 0,
+    reconciled: false,
+  }
+  const report = (changes: Partial<ParseProgress>) => {
+    Object.assign(progress, changes)
+    onProgress?.({ ...progress })
+  }
+  report({})
+
+  // Text and parse outcomes are cached by the PDF's hash, so a repeat upload
+  // skips OCR, and parsing too unless the parser has changed since
+  const fileHash = hashFile(arrayBuffer)
+  const cachedExtraction = force ? null : await getCachedExtraction(fileHash)
+  const cachedParse = force ? null : await getCachedParse(fileHash, formatId)
+
+  let extraction: CachedExtraction
+  if (cachedExtraction) {
+    extraction = cachedExtraction
+    report(extraction.extractionMethod === 'ocr'
+      ? { stage: 'ocr', pagesOcrd: extraction.pageCount || 0, pageCount: extraction.pageCount }
+      : { pagesExtracted: extraction.pageCount || 0, pageCount: extraction.pageCount })
+  } else {
+    const extracted = await extractText(arrayBuffer, fileName, progress, report, signal)
+    if (!extracted.success) return extracted
+    extraction = extracted.extraction
+  }
+  const { text, words, extractionMethod, ocrProvider } = extraction
+
+  // Parse the warrant data
+  signal?.throwIfAborted()
+  report({ stage: 'parsing' })
+  const outcome = cachedParse || parseWarrant(text, formatId, words)
+  const { warrantInfo, controlTotals, format, formatScores } = outcome
+  report({ itemsParsed: outcome.items.length })
+
+  if (!cachedParse) {
+    try {
+      await cacheParseResult(fileHash, extraction, formatId, outcome.items.length > 0 ? outcome : null)
+    } catch (cacheError) {
+      console.error('Parse cache write failed:', cacheError)
+    }
+  }
+
+  if (outcome.items.length === 0) {
+    return {
+      success: false,
+      error: 'Could not parse warrant data. The PDF format may not be supported.',
+      extractionMethod,
+      ocrProvider,
+      format,
+      formatScores,
+      debug: text.substring(0, 1000),
+    }
+  }
+
+  report({ stage: 'reconciling' })
+  const { items, total, reconciliation, accountWarnings } = await checkParsedItems(outcome)
+  report({ reconciled: true })
+
+  // A canceled job shouldn't leave an archive entry behind
+  signal?.throwIfAborted()
+
+  // Keep every successful parse in the archive; a storage failure shouldn't
+  // cost the user their result. A PDF archived before keeps its entry, and
+  // the work saved on it, unless asked to replace it.
+  let archiveId: string | undefined
+  let alreadyArchived = false
+  try {
+    const existing = await findWarrantByHash(fileHash)
+    archiveId = existing?.id
+    if (archive) {
+      const archived = await saveWarrant({
+        id: replaceArchived ? existing?.id : undefined,
+        fileName,
+        fileHash,
+        format: format.id,
+        warrantInfo,
+        items,
+        total,
+        controlTotals,
+        corrections: [],
+      })
+      archiveId = archived.id
+      alreadyArchived = !!existing && !replaceArchived
+    }
+  } catch (archiveError) {
+    console.error('Archive save failed:', archiveError)
+  }
+
+  report({ stage: 'done' })
+  return {
+    success: true,
+    data: items,
+    warrantInfo,
+    total,
+    reconciliation,
+    controlTotals,
+    extractionMethod,
+    ocrProvider,
+    format,
+    formatScores,
+    archiveId,
+    alreadyArchived,
+    accountWarnings,
+    cached: !!cachedParse,
+  }
+}
+
+// Everything after the text is parsed, for PDFs here and for the CLI's text
+// files. Vendor names follow the municipality's vendor master and account
+// codes its account code structure as they stand now, so they're applied
+// after the cache rather than stored in it.
+export async function checkParsedItems(
+  { items: parsedItems, warrantInfo, controlTotals }: Pick<ParseOutcome, 'items' | 'warrantInfo' | 'controlTotals'>,
+): Promise<CheckedItems> {
+  const layouts = await getAccountLayouts(warrantInfo.municipality)
+  const items = splitAccounts(normalizeVendors(parsedItems, await getVendorMaster(warrantInfo.municipality)), layouts)
+
+  // Account codes that don't fit the structure, and those missing from the
+  // municipality's chart of accounts if one has been imported
+  const chart = await getChart(warrantInfo.municipality)
+  return {
+    items,
+    total: items.reduce((sum, item) => sum + item.amount, 0),
+    reconciliation: reconcile(items, controlTotals),
+    accountWarnings: [
+      ...accountStructureWarnings(items, layouts),
+      ...chart
+        ? unknownAccounts(chart, items).map(account => `Account ${account} is not in the ${chart.municipality} chart of accounts`)
+        : [],
+    ],
+  }
+}
+
+// Reads the PDF's own text layer first, only falling back to the configured
+// OCR provider when it is missing or doesn't look like a warrant
+async function extractText(
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  progress: ParseProgress,
+  report: (changes: Partial<ParseProgress>) => void,
+  signal?: AbortSignal,
+): Promise<{ success: true, extraction: CachedExtraction } | ParseFailure> {
+  let text = ''
+  let words: LayoutWord[] | undefined
+  let extractionMethod: ExtractionMethod = 'text-layer'
+  let ocrProvider: string | undefined
+
+  try {
+    const layer = await extractTextLayer(arrayBuffer, () => {
+      signal?.throwIfAborted()
+      report({ pagesExtracted: progress.pagesExtracted + 1 })
+    })
+    text = layer.text
+    words = layer.words
+    report({ pageCount: layer.pageCount })
+  } catch (pdfError) {
+    signal?.throwIfAborted()
+    // Expected for scans, which go on to OCR, so one line is enough
+    console.error('Text layer extraction failed:', pdfError instanceof Error ? pdfError.message : pdfError)
+  }
+
+  if (!isUsableTextLayer(text)) {
+    extractionMethod = 'ocr'
+    report({ stage: 'ocr' })
+    try {
+      const provider = getOcrProvider()
+      ocrProvider = provider.name
+      const result = await provider.extractText(arrayBuffer, fileName, {
+        signal,
+        onPage: (done, total) => report({ pagesOcrd: done, pageCount: total }),
+      })
+      text = result.text
+      words = result.words
+    } catch (ocrError) {
+      signal?.throwIfAborted()
+      console.error('OCR extraction failed:', ocrError)
+      return {
+        success: false,
+        error: 'Could not extract text from PDF. Please try again or contact support.',
+      }
+    }
+  }
+
+  // Check if we got meaningful content
+  if (!text || text.trim().length < 50) {
+    return {
+      success: false,
+      error: 'Could not extract text from PDF. The file may be corrupted or empty.',
+    }
+  }
+
+  return {
+    success: true,
+    extraction: { text, extractionMethod, ocrProvider, pageCount: progress.pageCount, words: words?.length ? words : undefined },
+  }
+}
+
+async function extractTextLayer(
+  arrayBuffer: ArrayBuffer,
+  onPage: () => void,
+): Promise<{ text: string, pageCount: number, words: LayoutWord[] }> {
+  const words: LayoutWord[] = []
+  const result = await pdf(Buffer.from(arrayBuffer), {
+    pagerender: async (pageData: PdfPage) => {
+      const text = await renderPageText(pageData, words)
+      onPage()
+      return text
+    },
+  })
+  return { text: result.text, pageCount: result.numpages, words }
+}
+
+// pdf-parse's default renderer glues items on the same line together without
+// spaces, which breaks the parsers' column regexes. Rebuild each visual line by
+// grouping items on their baseline and ordering them left to right, and add
+// each item to words with its box. Pages after the first start with a form
+// feed so parsers can tell pages apart.
+async function renderPageText(pageData: PdfPage, words: LayoutWord[]): Promise<string> {
+  const pageHeight: number = pageData.getViewport(1).height
+  const content = await pageData.getTextContent({ normalizeWhitespace: true })
+  const items = content.items
+    .filter(item => item.str.trim())
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4])
+
+  const rows: TextItem[][] = []
+  for (const item of items) {
+    const row = rows[rows.length - 1]
+    if (row && Math.abs(row[0].transform[5] - item.transform[5]) <= 2) {
+      row.push(item)
+    } else {
+      rows.push([item])
+    }
+  }
+
+  const text = rows
+    .map((row, line) => row
+      .sort((a, b) => a.transform[4] - b.transform[4])
+      .map(item => {
+        const height = item.height || Math.abs(item.transform[3])
+        words.push({
+          text: item.str.trim(),
+          page: pageData.pageIndex + 1,
+          line,
+          left: item.transform[4],
+          top: pageHeight - item.transform[5] - height,
+          width: item.width,
+          height,
+        })
+        return item.str.trim()
+      })
+      .join(' '))
+    .join('\n')
+
+  return pageData.pageIndex > 0 ? `\f${text}` : text
+}
+
+// The text layer is only usable if a dedicated warrant format recognizes
+// most of it; scanned PDFs have no text or just a stamp or page footer
+function isUsableTextLayer(text: string): boolean {
+  if (!text || text.trim().length < 50) return false
+  return detectFormats(text)[0].score >= MIN_TEXT_LAYER_SCORE
+}
@@ -0,0 +1,361 @@
+import type { ControlTotal, ControlTotalScope, LayoutWord, PaymentType, WarrantItem } from '../types'
+import { scoreConfidence } from './confidence'
+import { parseWarrantHeader } from './header'
+import { assignColumns, findHeadingColumns, layoutRows } from './layout'
+import type { LayoutColumn } from './layout'
+import {
+  ACCOUNT_PATTERN,
+  accountFromMatch,
+  AMOUNT_ENCUMBRANCE_PATTERN,
+  CONTROL_TOTAL_PATTERN,
+  hasAmount,
+  matchPaymentSection,
+  parseAmount,
+} from './patterns'
+import { itemSource, linePages } from './source'
+import type { ParsedWarrant, WarrantFormat } from './types'
+
+const VENDOR_HEADER_PATTERN = /^\d{5}\s+[A-Za-z]/
+const ITEM_LINE_PATTERN = /^\d{4}\s+\d{5}\s+\d{2}\s+/
+
+// Bradford-style warrants (TRIO): 5-digit vendor headers, then
+// "Jrnl Check Month Description" lines with the account code, department
+// and amount/encumbrance columns wrapping onto the following lines
+export const bradfordFormat: WarrantFormat = {
+  id: 'bradford',
+  name: 'Bradford / TRIO',
+
+  // Share of the amount-bearing lines that are recognizably item lines,
+  // control totals or the amount/encumbrance column pair
+  score(lines) {
+    const amountLines = lines.filter(hasAmount)
+    if (amountLines.length === 0) return 0
+    if (!lines.some(line => VENDOR_HEADER_PATTERN.test(line))) return 0
+
+    const recognized = amountLines.filter(line =>
+      ITEM_LINE_PATTERN.test(line) ||
+      CONTROL_TOTAL_PATTERN.test(line) ||
+      AMOUNT_ENCUMBRANCE_PATTERN.test(line),
+    ).length
+
+    return recognized / amountLines.length
+  },
+
+  parse: parseBradford,
+  parseLayout: parseBradfordLayout,
+}
+
+function parseBradford(text: string): ParsedWarrant {
+  const lines = text.split('\n')
+  const pages = linePages(lines)
+  const items: WarrantItem[] = []
+  const controlTotals: ControlTotal[] = []
+  const tracker = trackWarrant(items, controlTotals)
+
+  let currentCheck = ''
+  let currentMonth = ''
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line) continue
+    if (tracker.read(line)) continue
+    const currentVendor = tracker.vendor
+
+    // Check for line item (starts with journal code, check#, month)
+    const itemMatch = line.match(/^(\d{4})\s+(\d{5})\s+(\d{2})\s+(.*)/)
+    if (itemMatch) {
+      currentCheck = itemMatch[2]
+      currentMonth = itemMatch[3]
+      
+      let description = itemMatch[4] || ''
+      let account = ''
+      let deptCategory = ''
+      let amount = 0
+      let encumbrance = 0
+      let lastLine = i
+
+      // Check current line for amount pattern (amount followed by encumbrance)
+      const amtMatch = line.match(AMOUNT_ENCUMBRANCE_PATTERN)
+      if (amtMatch) {
+        amount = parseAmount(amtMatch[1])
+        encumbrance = parseAmount(amtMatch[2])
+        description = description.replace(amtMatch[0], '').trim()
+      }
+
+      const amountOnItemLine = amount > 0
+
+      // Look at next few lines for additional data
+      for (let j = 1; j <= 4 && i + j < lines.length; j++) {
+        const nextLine = lines[i + j].trim()
+        
+        // Stop if we hit another item, vendor or control total
+        if (nextLine.match(/^\d{4}\s+\d{5}/) || nextLine.match(/^\d{5}\s+[A-Za-z]/) ||
+            CONTROL_TOTAL_PATTERN.test(nextLine)) {
+          break
+        }
+        if (nextLine) lastLine = i + j
+
+        // Check for account code (E or G prefix)
+        const acctMatch = nextLine.match(ACCOUNT_PATTERN)
+        if (acctMatch && !account) {
+          account = accountFromMatch(acctMatch)
+        }
+
+        // Check for FUND pattern
+        const fundMatch = nextLine.match(/^FUND\s+\d+\s*\/?\s*(.*)$/i)
+        if (fundMatch && !deptCategory) {
+          deptCategory = nextLine
+        }
+
+        // Check for department/category pattern
+        const deptMatch = nextLine.match(/^([A-Z][A-Z\s\.]+)\s*[-–]\s*([A-Z][A-Z\s\.]+)\s*\/\s*(.+)/i)
+        if (deptMatch && !deptCategory) {
+          deptCategory = `${deptMatch[1].trim()} - ${deptMatch[2].trim()} / ${deptMatch[3].trim()}`
+        }
+
+        // Check for amount if not found yet
+        if (!amount) {
+          const lineAmtMatch = nextLine.match(AMOUNT_ENCUMBRANCE_PATTERN)
+          if (lineAmtMatch) {
+            amount = parseAmount(lineAmtMatch[1])
+            encumbrance = parseAmount(lineAmtMatch[2])
+          }
+        }
+      }
+
+      // Clean up description
+      description = description
+        .replace(ACCOUNT_PATTERN, '')
+        .replace(/[\d,]+\.\d{2}\s+\d+\.\d{2}/, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+
+      // Only add if we have valid data
+      if (amount > 0 && currentVendor.name) {
+        items.push({
+          vendorCode: currentVendor.code,
+          vendorName: currentVendor.name,
+          journal: itemMatch[1],
+          check: currentCheck,
+          month: currentMonth,
+          description: description || 'Payment',
+          account: account,
+          deptCategory: deptCategory,
+          amount: amount,
+          encumbrance: encumbrance,
+          paymentType: tracker.paymentType,
+          source: itemSource(lines, pages, i, lastLine),
+          confidence: scoreConfidence({
+            hasAccount: !!account,
+            hasDepartment: !!deptCategory,
+            hasCheck: !!currentCheck,
+            hasDescription: !!description,
+            amountOnItemLine,
+          }),
+        })
+      }
+    }
+  }
+
+  return { items, warrantInfo: parseWarrantHeader(text), controlTotals }
+}
+
+const LAYOUT_HEADINGS: Record<BradfordColumn, RegExp> = {
+  journal: /^Jrnl$/i,
+  check: /^Check$/i,
+  month: /^(Month|Mo)$/i,
+  description: /^Description$/i,
+  account: /^Account$/i,
+  deptCategory: /^Dept\/? ?Category$|^Dept\.?$/i,
+  amount: /^Amount$/i,
+  encumbrance: /^Encumb(rance)?$/i,
+}
+
+type BradfordColumn = 'journal' | 'check' | 'month' | 'description' | 'account' | 'deptCategory' | 'amount' | 'encumbrance'
+
+interface OpenItem {
+  cells: Partial<Record<BradfordColumn, string>>
+  amountOnItemLine: boolean
+  firstLine: number
+  lastLine: number
+}
+
+// The same layout read from word positions: the heading row fixes where
+// each column sits, every word goes to the column it falls under, and rows
+// after an item line that start no item of their own continue it, so a
+// wrapped description or account lands on the right item
+function parseBradfordLayout(text: string, words: LayoutWord[]): ParsedWarrant | null {
+  const lines = text.split('\n')
+  const pages = linePages(lines)
+  const items: WarrantItem[] = []
+  const controlTotals: ControlTotal[] = []
+  let columns: LayoutColumn<BradfordColumn>[] | null = null
+  let open: OpenItem | null = null
+
+  const finish = () => {
+    if (!open) return
+    const { cells } = open
+    const amount = cellAmount(cells.amount)
+    const accountText = cells.account || ''
+    const accountMatch = accountText.match(ACCOUNT_PATTERN)
+    const account = accountMatch
+      ? accountFromMatch(accountMatch)
+      : /\d/.test(accountText) ? accountText : ''
+    const description = cells.description || ''
+    const deptCategory = cells.deptCategory || ''
+
+    if (amount > 0 && tracker.vendor.name) {
+      items.push({
+        vendorCode: tracker.vendor.code,
+        vendorName: tracker.vendor.name,
+        journal: cells.journal!,
+        check: cells.check!,
+        month: cells.month || '',
+        description: description || 'Payment',
+        account,
+        deptCategory,
+        amount,
+        encumbrance: cellAmount(cells.encumbrance),
+        paymentType: tracker.paymentType,
+        source: itemSource(lines, pages, open.firstLine, open.lastLine),
+        confidence: scoreConfidence({
+          hasAccount: !!account,
+          hasDepartment: !!deptCategory,
+          hasCheck: !!cells.check,
+          hasDescription: !!description,
+          amountOnItemLine: open.amountOnItemLine,
+        }),
+      })
+    }
+    open = null
+  }
+  const tracker = trackWarrant(items, controlTotals, finish)
+
+  for (const row of layoutRows(words, lines)) {
+    const headings = findHeadingColumns(row, LAYOUT_HEADINGS, ['journal', 'check', 'amount'])
+    if (headings) {
+      finish()
+      columns = headings
+      continue
+    }
+    if (!columns) {
+      tracker.read(row.text)
+      continue
+    }
+
+    const cells = assignColumns(row, columns, ['amount', 'encumbrance'])
+    if (/^\d{4}$/.test(cells.journal || '') && /^\d{5}$/.test(cells.check || '')) {
+      finish()
+      open = { cells, amountOnItemLine: cellAmount(cells.amount) > 0, firstLine: row.line, lastLine: row.line }
+      continue
+    }
+
+    if (tracker.read(row.text)) continue
+
+    if (open) {
+      const item: OpenItem = open
+      ;(['description', 'deptCategory'] as BradfordColumn[]).forEach(key => {
+        if (cells[key]) item.cells[key] = item.cells[key] ? `${item.cells[key]} ${cells[key]}` : cells[key]
+      })
+      ;(['account', 'amount', 'encumbrance'] as BradfordColumn[]).forEach(key => {
+        if (cells[key] && !item.cells[key]) item.cells[key] = cells[key]
+      })
+      item.lastLine = row.line
+    }
+  }
+  finish()
+
+  // Without a heading row there's nothing to place the words by
+  if (!columns) return null
+  return { items, warrantInfo: parseWarrantHeader(text), controlTotals }
+}
+
+function cellAmount(cell: string | undefined): number {
+  const match = cell?.match(/[\d,]*\d\.\d{2}/)
+  return match ? parseAmount(match[0]) : 0
+}
+
+// Follows the vendor headers, payment sections and control totals that
+// items fall under, with each control total covering the items added since
+// the last total of its scope. read() takes one trimmed line and returns
+// true when it was one of those, or page furniture to skip, first calling
+// flush() so an item still being assembled lands before it.
+function trackWarrant(items: WarrantItem[], controlTotals: ControlTotal[], flush = () => {}) {
+  // Index of the first item each open control total covers
+  let invoiceStart = 0
+  let vendorStart = 0
+  let sectionStart = 0
+
+  const tracker = {
+    vendor: { code: '', name: '' },
+    paymentType: 'current' as PaymentType,
+
+    read(line: string): boolean {
+      // Capture control totals so they can be reconciled against parsed items
+      const totalMatch = line.match(CONTROL_TOTAL_PATTERN)
+      if (totalMatch) {
+        flush()
+        const kind = totalMatch[1]
+        const printed = parseAmount(totalMatch[2])
+        const scope: ControlTotalScope = /^invoice$/i.test(kind) ? 'invoice'
+          : /^vendor$/i.test(kind) ? 'vendor'
+          : /^warrant$/i.test(kind) ? 'warrant'
+          : 'section'
+        const itemStart = scope === 'invoice' ? invoiceStart
+          : scope === 'vendor' ? vendorStart
+          : scope === 'section' ? sectionStart
+          : 0
+        const vendorLabel = tracker.vendor.name ? ` - ${tracker.vendor.name} (${tracker.vendor.code})` : ''
+
+        controlTotals.push({
+          scope,
+          label: scope === 'invoice' || scope === 'vendor' ? `${kind} Total${vendorLabel}` : `${kind} Total`,
+          printed,
+          itemStart,
+          itemEnd: items.length,
+        })
+
+        invoiceStart = items.length
+        if (scope !== 'invoice') vendorStart = items.length
+        if (scope === 'section' || scope === 'warrant') sectionStart = items.length
+        return true
+      }
+
+      // Section headings switch the payment type of the items that follow
+      const sectionType = matchPaymentSection(line)
+      if (sectionType) {
+        flush()
+        tracker.paymentType = sectionType
+        return true
+      }
+
+      // Skip header lines and totals
+      if (line.includes('Jrnl') || line.includes('Check') || line.includes('Month') ||
+          line.includes('Total-') || line.includes('Invoice Total') ||
+          line.includes('Vendor Total') || line.includes('Prepaid Total') ||
+          line.includes('Current Total') || line.includes('EFT Total') ||
+          line.includes('Warrant Total') || line.includes('TREASURER') ||
+          line.includes('CERTIFY') || line.includes('SELECTMEN') ||
+          line.includes('Page ')) {
+        flush()
+        return true
+      }
+
+      // Check for vendor header (5-digit code followed by vendor name)
+      const vendorMatch = line.match(/^(\d{5})\s+([A-Za-z][A-Za-z\s&\.,'\-\/\(\)]+?)(?:\s*$|\s+\d)/)
+      if (vendorMatch && !line.match(/^\d{5}\s+\d{5}/)) {
+        flush()
+        tracker.vendor = {
+          code: vendorMatch[1],
+          name: vendorMatch[2].trim().replace(/\s+/g, ' '),
+        }
+        invoiceStart = items.length
+        vendorStart = items.length
+        return true
+      }
+
+      return false
+    },
+  }
+  return tracker
+}
@@ -0,0 +1,102 @@
+import type { ControlTotal, PaymentType, WarrantItem } from '../types'
+import { scoreConfidence } from './confidence'
+import { parseWarrantHeader } from './header'
+import {
+  ACCOUNT_PATTERN,
+  accountFromMatch,
+  CONTROL_TOTAL_PATTERN,
+  hasAmount,
+  matchPaymentSection,
+  parseAmount,
+} from './patterns'
+import { itemSource, linePages } from './source'
+import type { ParsedWarrant, WarrantFormat } from './types'
+
+// "24567  03/15/2024  01234  CENTRAL MAINE POWER  E 10-13-25  1,234.56"
+const REGISTER_LINE_PATTERN = /^(\d{3,7}|EFT\w*)\s+(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s+(\d{3,6})\s+(.+?)\s+([\d,]+\.\d{2})\s*$/i
+
+// One line per payment: check number, check date, vendor code, vendor name
+// and amount, as printed by check-register style warrant reports
+export const checkRegisterFormat: WarrantFormat = {
+  id: 'check-register',
+  name: 'Check register',
+
+  score(lines) {
+    const amountLines = lines.filter(hasAmount)
+    if (amountLines.length === 0) return 0
+
+    const registerLines = amountLines.filter(line => REGISTER_LINE_PATTERN.test(line)).length
+    if (registerLines === 0) return 0
+
+    const totalLines = amountLines.filter(line => CONTROL_TOTAL_PATTERN.test(line)).length
+    return (registerLines + totalLines) / amountLines.length
+  },
+
+  parse: parseCheckRegister,
+}
+
+function parseCheckRegister(text: string): ParsedWarrant {
+  const items: WarrantItem[] = []
+  const controlTotals: ControlTotal[] = []
+  const lines = text.split('\n')
+  const pages = linePages(lines)
+  let currentPaymentType: PaymentType = 'current'
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line) continue
+
+    const sectionType = matchPaymentSection(line)
+    if (sectionType) {
+      currentPaymentType = sectionType
+      continue
+    }
+
+    const totalMatch = line.match(CONTROL_TOTAL_PATTERN)
+    if (totalMatch) {
+      if (/^warrant$/i.test(totalMatch[1])) {
+        controlTotals.push({
+          scope: 'warrant',
+          label: 'Warrant Total',
+          printed: parseAmount(totalMatch[2]),
+          itemStart: 0,
+          itemEnd: items.length,
+        })
+      }
+      continue
+    }
+
+    const match = line.match(REGISTER_LINE_PATTERN)
+    if (!match) continue
+
+    const [, check, month, , , vendorCode, rest, amount] = match
+    const acctMatch = rest.match(ACCOUNT_PATTERN)
+    const vendorName = (acctMatch ? rest.slice(0, acctMatch.index) : rest).trim().replace(/\s+/g, ' ')
+    const description = acctMatch ? rest.slice((acctMatch.index || 0) + acctMatch[0].length).trim() : ''
+    const isEft = /^EFT/i.test(check)
+
+    items.push({
+      vendorCode,
+      vendorName,
+      journal: '',
+      check: isEft ? '' : check,
+      month: month.padStart(2, '0'),
+      description: description || 'Payment',
+      account: acctMatch ? accountFromMatch(acctMatch) : '',
+      deptCategory: '',
+      amount: parseAmount(amount),
+      encumbrance: 0,
+      paymentType: isEft ? 'eft' : currentPaymentType,
+      source: itemSource(lines, pages, i, i),
+      confidence: scoreConfidence({
+        hasAccount: !!acctMatch,
+        hasDepartment: false,
+        hasCheck: isEft || !!check,
+        hasDescription: !!description,
+        amountOnItemLine: true,
+      }),
+    })
+  }
+
+  return { items, warrantInfo: parseWarrantHeader(text), controlTotals }
+}
@@ -0,0 +1,27 @@
+// Rows scoring below this are highlighted for review in the results table
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+export interface ConfidenceSignals {
+  hasAccount: boolean
+  hasDepartment: boolean
+  hasCheck: boolean
+  hasDescription: boolean
+  amountOnItemLine: boolean
+}
+
+// Each missing signal takes a fixed amount off a perfect score. An amount
+// picked up from a following line is the likeliest to belong to another row.
+const PENALTIES: Record<keyof ConfidenceSignals, number> = {
+  hasAccount: 0.25,
+  hasDepartment: 0.15,
+  hasCheck: 0.15,
+  hasDescription: 0.1,
+  amountOnItemLine: 0.2,
+}
+
+export function scoreConfidence(signals: ConfidenceSignals): number {
+  const score = (Object.keys(PENALTIES) as (keyof ConfidenceSignals)[])
+    .filter(signal => !signals[signal])
+    .reduce((total, signal) => total - PENALTIES[signal], 1)
+  return Math.max(0, Math.round(score * 100) / 100)
+}
@@ -0,0 +1,132 @@
+import type { ControlTotal, PaymentType, WarrantItem } from '../types'
+import { scoreConfidence } from './confidence'
+import { parseWarrantHeader } from './header'
+import {
+  ACCOUNT_PATTERN,
+  accountFromMatch,
+  AMOUNT_PATTERN,
+  CONTROL_TOTAL_PATTERN,
+  hasAmount,
+  matchPaymentSection,
+  parseAmount,
+} from './patterns'
+import { itemSource, linePages } from './source'
+import type { ParsedWarrant, WarrantFormat } from './types'
+
+const VENDOR_PATTERN = /^(\d{5})\s+([A-Za-z][A-Za-z\s&\.,'\-\/\(\)]+?)(?:\s+\d|$)/
+const LABELED_CHECK_PATTERN = /\b(?:Check|Chk|Ck)\.?\s*(?:No\.?|#)?\s*(\d{3,7})\b/i
+
+// Last resort for layouts no other format recognizes: any line with an
+// amount under a 5-digit vendor header becomes an item. It never scores
+// above the dedicated formats, so it only wins when they find nothing.
+export const genericFormat: WarrantFormat = {
+  id: 'generic',
+  name: 'Generic (vendor + amount lines)',
+
+  score(lines) {
+    const hasVendors = lines.some(line => VENDOR_PATTERN.test(line))
+    return hasVendors && lines.some(hasAmount) ? 0.1 : 0
+  },
+
+  parse: parseGeneric,
+}
+
+function parseGeneric(text: string): ParsedWarrant {
+  const items: WarrantItem[] = []
+  const controlTotals: ControlTotal[] = []
+  const lines = text.split('\n')
+  const pages = linePages(lines)
+  const warrantInfo = parseWarrantHeader(text)
+
+  // Items don't carry a month in this layout, so use the warrant's period
+  // or, failing that, the month it's dated
+  const dateMonth = warrantInfo.date.match(/^(\d{2})\//)
+  const month = warrantInfo.period ? String(warrantInfo.period).padStart(2, '0') : dateMonth ? dateMonth[1] : ''
+
+  let currentVendor = { code: '', name: '' }
+  let currentPaymentType: PaymentType = 'current'
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    const sectionType = matchPaymentSection(line)
+    if (sectionType) {
+      currentPaymentType = sectionType
+      continue
+    }
+
+    // Only the warrant total can be reconciled; nothing else here is grouped reliably
+    const totalMatch = line.match(CONTROL_TOTAL_PATTERN)
+    if (totalMatch && /^warrant$/i.test(totalMatch[1])) {
+      controlTotals.push({
+        scope: 'warrant',
+        label: 'Warrant Total',
+        printed: parseAmount(totalMatch[2]),
+        itemStart: 0,
+        itemEnd: items.length,
+      })
+      continue
+    }
+
+    // Look for vendor code and name pattern
+    const vendorMatch = line.match(VENDOR_PATTERN)
+    if (vendorMatch) {
+      currentVendor = {
+        code: vendorMatch[1],
+        name: vendorMatch[2].trim(),
+      }
+    }
+
+    // Look for amount patterns
+    const amounts = line.match(AMOUNT_PATTERN)
+    if (amounts && currentVendor.name && !line.includes('Total')) {
+      const parsedAmounts = amounts.map(parseAmount)
+      const mainAmount = parsedAmounts.find(a => a > 0 && a < 10000000)
+
+      if (mainAmount) {
+        const acctMatch = line.match(ACCOUNT_PATTERN)
+        const check = findCheckNumber(line, currentVendor.code)
+
+        items.push({
+          vendorCode: currentVendor.code,
+          vendorName: currentVendor.name,
+          journal: '',
+          check,
+          month,
+          description: 'Payment',
+          account: acctMatch ? accountFromMatch(acctMatch) : '',
+          deptCategory: '',
+          amount: mainAmount,
+          encumbrance: 0,
+          paymentType: currentPaymentType,
+          source: itemSource(lines, pages, i, i),
+          confidence: scoreConfidence({
+            hasAccount: !!acctMatch,
+            hasDepartment: false,
+            hasCheck: !!check,
+            hasDescription: false,
+            amountOnItemLine: true,
+          }),
+        })
+      }
+    }
+  }
+
+  return { items, warrantInfo, controlTotals }
+}
+
+// Prefer an explicitly labeled check number; otherwise take the first 4-6
+// digit number left once the vendor code, amounts, dates and account code
+// are removed from the line
+function findCheckNumber(line: string, vendorCode: string): string {
+  const labeled = line.match(LABELED_CHECK_PATTERN)
+  if (labeled) return labeled[1]
+
+  const remainder = line
+    .replace(new RegExp(`^${vendorCode}\\b`), '')
+    .replace(AMOUNT_PATTERN, '')
+    .replace(/\d{1,2}\/\d{1,2}\/\d{2,4}/g, '')
+    .replace(ACCOUNT_PATTERN, '')
+  const bare = remainder.match(/\b(\d{4,6})\b/)
+  return bare ? bare[1] : ''
+}
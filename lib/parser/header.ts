@@ -0,0 +1,198 @@
+import type { WarrantHeaderField, WarrantInfo, WarrantItem } from '../types'
+import { fiscalYearOf, parseWarrantDate } from '../warrantDate'
+
+// The header is whatever comes before the column headings or first vendor
+const HEADER_END = /^Vendor\s+Name\b|^Jrnl\b|^\d{5}\s/i
+const MAX_HEADER_LINES = 15
+
+// Printed names, most specific first: towns and cities, school units by
+// number, then named school departments
+const MUNICIPALITY_PATTERNS = [
+  /\b((?:Town|City|Village|Plantation|County)\s+of\s+[A-Za-z][A-Za-z.'-]*(?:\s[A-Za-z][A-Za-z.'-]*)*?)(?=\s{2,}|\s+(?:A\s*\/\s*P|AP|Accounts|Warrant|Page|Date)\b|\s+\d|\s*$)/i,
+  /\b((?:Regional\s+School\s+Unit|School\s+Administrative\s+District|Community\s+School\s+District|Alternative\s+Organizational\s+Structure|School\s+Union|RSU|M?SAD|SAU|AOS|CSD)\s*(?:No\.?|#)?\s*\d+)\b/i,
+  /\b([A-Za-z][A-Za-z.'-]*(?:\s[A-Za-z][A-Za-z.'-]*)*?\s+(?:School\s+Department|Public\s+Schools|School\s+District))\b/i,
+]
+// The name in front of the title, e.g. "Bradford A/P Warrant 12"
+const TITLE_PATTERN = /^([A-Za-z][A-Za-z.'-]*(?:\s[A-Za-z][A-Za-z.'-]*)*?)\s+(?:A\s*\/\s*P\s+|AP\s+|Accounts\s+Payable\s+)?Warrant\b/i
+const ACRONYMS = new Set(['RSU', 'MSAD', 'SAD', 'SAU', 'AOS', 'CSD'])
+// Words that start the column headings and section lines, never a name
+const HEADING_WORDS = new Set([
+  'vendor', 'name', 'jrnl', 'journal', 'check', 'chk', 'month', 'date', 'description', 'account', 'dept',
+  'amount', 'encumbrance', 'page', 'current', 'prepaid', 'eft', 'total', 'warrant', 'register',
+])
+
+const WARRANT_PATTERN = /\bWarrant\s*(?:No\.?|Number|#)?\s*:?\s*#?\s*(\d+)\b/i
+const DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/
+const LABELED_DATE_PATTERN = /\bDate\s*:?\s*(\d{1,2}\/\d{1,2}\/(?:\d{4}|\d{2}))\b/i
+const PERIOD_PATTERN = /\b(?:Accounting\s+)?Period\s*:?\s*(\d{1,2})\b/i
+const FISCAL_YEAR_PATTERN = /\b(?:Fiscal\s+Year|FY)\s*:?\s*(\d{4}|\d{2})\b/i
+
+// The certification block opens with one of these words
+const CERTIFICATION_START = /\b(TREASURER|CERTIFY|SELECTMEN)\b/i
+// Lines that end the block, and lines inside it that aren't wording
+const CERTIFICATION_END = /\b(Vendor|Invoice|Prepaid|Current|EFT)\s+Total\b|^\d{5}\s/i
+const SKIPPED_LINE = /^Page\s+\d+|\bWarrant\s+Total\b/i
+const MAX_CERTIFICATION_LINES = 20
+
+// Reads the header printed above the first vendor. Values found only outside
+// the header, or worked out from other values, are listed in uncertain so
+// the user can confirm them before export.
+export function parseWarrantHeader(text: string): WarrantInfo {
+  const lines = text.split('\n').map(line => line.trim())
+  const headerLines = lines.slice(0, headerEnd(lines)).filter(Boolean)
+  const header = headerLines.join('\n')
+  const uncertain: WarrantHeaderField[] = []
+
+  const municipality = parseMunicipality(headerLines) ?? parseMunicipality(lines)
+  if (!municipality || !municipality.certain || !headerLines.some(line => line.includes(municipality.printed))) {
+    uncertain.push('municipality')
+  }
+
+  const warrantMatch = header.match(WARRANT_PATTERN) || text.match(WARRANT_PATTERN)
+  if (!warrantMatch || !header.match(WARRANT_PATTERN)) uncertain.push('warrantNumber')
+
+  const headerDate = findDate(header)
+  const date = headerDate || findDate(text)
+  if (!headerDate) uncertain.push('date')
+  const parsedDate = date ? parseWarrantDate(date) : null
+
+  const periodMatch = header.match(PERIOD_PATTERN)
+  const printedPeriod = periodMatch ? parseInt(periodMatch[1], 10) : NaN
+  const period = printedPeriod >= 1 && printedPeriod <= 12 ? printedPeriod : undefined
+  // Without a printed period, periodFromItems fills it in once items are read
+
+  const fiscalYearMatch = header.match(FISCAL_YEAR_PATTERN)
+  const printedFiscalYear = fiscalYearMatch ? fullYear(fiscalYearMatch[1]) : undefined
+  const datedFiscalYear = parsedDate ? fiscalYearOf(parsedDate) : undefined
+  const fiscalYear = printedFiscalYear ?? datedFiscalYear
+  if (fiscalYear === undefined || (printedFiscalYear === undefined && uncertain.includes('date')) ||
+    (printedFiscalYear !== undefined && datedFiscalYear !== undefined && printedFiscalYear !== datedFiscalYear)) {
+    uncertain.push('fiscalYear')
+  }
+
+  const certification = parseCertification(text)
+
+  return {
+    date: date || 'Unknown',
+    warrantNumber: warrantMatch ? String(parseInt(warrantMatch[1], 10)) : 'Unknown',
+    municipality: municipality ? municipality.name : 'Unknown',
+    ...(period !== undefined && { period }),
+    ...(fiscalYear !== undefined && { fiscalYear }),
+    ...(certification.length > 0 && { certification }),
+    uncertain,
+  }
+}
+
+// Fills in the accounting period from the items' Month column when the
+// header doesn't print one. It's only certain when every item agrees.
+export function periodFromItems(warrantInfo: WarrantInfo, items: WarrantItem[]): WarrantInfo {
+  if (warrantInfo.period !== undefined) return warrantInfo
+
+  const counts = new Map<number, number>()
+  items.forEach(item => {
+    const month = parseInt(item.month, 10)
+    if (month >= 1 && month <= 12) counts.set(month, (counts.get(month) || 0) + 1)
+  })
+  const common = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]
+  const date = parseWarrantDate(warrantInfo.date)
+  const period = common ? common[0] : date ? date.getMonth() + 1 : undefined
+  if (period === undefined) {
+    return { ...warrantInfo, uncertain: [...(warrantInfo.uncertain || []), 'period'] }
+  }
+
+  const certain = counts.size === 1
+  return {
+    ...warrantInfo,
+    period,
+    uncertain: certain ? warrantInfo.uncertain : [...(warrantInfo.uncertain || []), 'period'],
+  }
+}
+
+function headerEnd(lines: string[]): number {
+  const end = lines.findIndex(line => HEADER_END.test(line))
+  return Math.min(end === -1 ? lines.length : end, MAX_HEADER_LINES)
+}
+
+// The printed name and how it reads in the app. Only the first-word guess,
+// which may be a line with nothing but the name, is uncertain.
+function parseMunicipality(lines: string[]): { printed: string, name: string, certain: boolean } | null {
+  for (const pattern of MUNICIPALITY_PATTERNS) {
+    for (const line of lines) {
+      const match = line.match(pattern)
+      if (match) return { printed: match[1], name: displayName(match[1]), certain: true }
+    }
+  }
+  for (const line of lines) {
+    const match = line.match(TITLE_PATTERN)
+    if (match) return { printed: match[1], name: displayName(match[1]), certain: true }
+  }
+  for (const line of lines) {
+    const match = line.match(/^([A-Za-z]+)(?:\s|$)/)
+    if (match && !HEADING_WORDS.has(match[1].toLowerCase())) return { printed: match[1], name: displayName(match[1]), certain: false }
+  }
+  return null
+}
+
+// Title-cases names printed in capitals, keeping school unit acronyms
+function displayName(printed: string): string {
+  const name = printed.replace(/\s+/g, ' ').trim()
+  if (/[a-z]/.test(name)) return name
+  return name
+    .split(' ')
+    .map((word, index) => {
+      if (ACRONYMS.has(word)) return word
+      if (index > 0 && word === 'OF') return 'of'
+      return word.charAt(0) + word.slice(1).toLowerCase()
+    })
+    .join(' ')
+}
+
+// The labeled date if there is one, else the first valid date, as MM/DD/YYYY
+function findDate(text: string): string | null {
+  const labeled = text.match(LABELED_DATE_PATTERN)
+  if (labeled) {
+    const date = normalizeDate(labeled[1])
+    if (date) return date
+  }
+  const pattern = new RegExp(DATE_PATTERN.source, 'g')
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    const date = normalizeDate(match[0])
+    if (date) return date
+  }
+  return null
+}
+
+function normalizeDate(printed: string): string | null {
+  const match = printed.match(DATE_PATTERN)
+  if (!match) return null
+  const month = parseInt(match[1], 10)
+  const day = parseInt(match[2], 10)
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${pad(month)}/${pad(day)}/${fullYear(match[3])}`
+}
+
+function fullYear(printed: string): number {
+  const year = parseInt(printed, 10)
+  return printed.length === 2 ? 2000 + year : year
+}
+
+// The TREASURER/SELECTMEN certification wording, without the signature
+// rules (runs of underscores) and page furniture
+function parseCertification(text: string): string[] {
+  const lines = text.split('\n').map(line => line.trim())
+  // Vendor and item lines start with digits ("01234 TREASURER STATE OF MAINE")
+  const start = lines.findIndex(line => CERTIFICATION_START.test(line) && !/^\d/.test(line))
+  if (start === -1) return []
+
+  const certification: string[] = []
+  for (const line of lines.slice(start)) {
+    if (CERTIFICATION_END.test(line)) break
+    if (!line || SKIPPED_LINE.test(line)) continue
+    const wording = line.replace(/_{3,}/g, ' ').replace(/\s+/g, ' ').trim()
+    if (wording) certification.push(wording)
+    if (certification.length === MAX_CERTIFICATION_LINES) break
+  }
+  return certification
+}
@@ -0,0 +1,92 @@
+import { reconcile } from '../reconcile'
+import type { LayoutWord } from '../types'
+import { bradfordFormat } from './bradford'
+import { checkRegisterFormat } from './checkRegister'
+import { genericFormat } from './generic'
+import { periodFromItems } from './header'
+import { correctMisreads } from './misreads'
+import type { ParsedWarrant, WarrantFormat } from './types'
+
+export type { ParsedWarrant, WarrantFormat } from './types'
+
+// New layouts are added here; order only matters to break score ties
+export const warrantFormats: WarrantFormat[] = [
+  bradfordFormat,
+  checkRegisterFormat,
+  genericFormat,
+]
+
+export interface FormatScore {
+  id: string
+  name: string
+  score: number
+}
+
+export interface ParseOutcome extends ParsedWarrant {
+  // layout: the items were placed by word positions rather than read from
+  // the text lines
+  format: FormatScore & { forced: boolean, layout: boolean }
+  formatScores: FormatScore[]
+}
+
+export function getWarrantFormat(id: string): WarrantFormat | undefined {
+  return warrantFormats.find(format => format.id === id)
+}
+
+// Every registered format's fit for the text, best first
+export function detectFormats(text: string): FormatScore[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean)
+  return warrantFormats
+    .map(format => ({ id: format.id, name: format.name, score: Math.round(format.score(lines) * 100) / 100 }))
+    .sort((a, b) => b.score - a.score)
+}
+
+// Parses with the requested format, or with the best-scoring format that
+// actually produces items when none is requested. words are the text's word
+// boxes, when the extractor had them.
+export function parseWarrant(text: string, formatId?: string, words?: LayoutWord[]): ParseOutcome {
+  const formatScores = detectFormats(text)
+
+  if (formatId) {
+    const format = getWarrantFormat(formatId)
+    if (!format) {
+      throw new Error(`Unknown warrant format "${formatId}"`)
+    }
+    const score = formatScores.find(entry => entry.id === format.id)!
+    const { layout, ...parsed } = parseWith(format, text, words)
+    return { ...parsed, format: { ...score, forced: true, layout }, formatScores }
+  }
+
+  let fallback: ParseOutcome | null = null
+  for (const score of formatScores) {
+    if (score.score === 0) break
+    const { layout, ...parsed } = parseWith(getWarrantFormat(score.id)!, text, words)
+    const outcome = { ...parsed, format: { ...score, forced: false, layout }, formatScores }
+    if (parsed.items.length > 0) return outcome
+    if (!fallback) fallback = outcome
+  }
+
+  if (fallback) return fallback
+  const { layout, ...parsed } = parseWith(genericFormat, text, words)
+  return {
+    ...parsed,
+    format: { ...formatScores.find(entry => entry.id === genericFormat.id)!, forced: false, layout },
+    formatScores,
+  }
+}
+
+// Layouts read the header from the text alone; the period can also come from
+// the items' Month column. Misread numbers in the text are corrected where
+// that reconciles the totals. With word boxes, the column grid is used
+// unless reading the text lines matches more of the printed control totals.
+function parseWith(format: WarrantFormat, text: string, words?: LayoutWord[]): ParsedWarrant & { layout: boolean } {
+  const parsed = correctMisreads(text, lines => format.parse(lines))
+  const placed = words?.length && format.parseLayout ? format.parseLayout(text, words) : null
+  const layout = !!placed && placed.items.length > 0 && (parsed.items.length === 0 || mismatches(placed) <= mismatches(parsed))
+  const chosen = layout ? placed! : parsed
+  return { ...chosen, warrantInfo: periodFromItems(chosen.warrantInfo, chosen.items), layout }
+}
+
+function mismatches(parsed: ParsedWarrant): number {
+  return reconcile(parsed.items, parsed.controlTotals).mismatches.length
+}
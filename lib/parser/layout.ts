@@ -0,0 +1,112 @@
+import type { LayoutWord } from '../types'
+import { linePages } from './source'
+
+// One row of words, tied back to its line in the extracted text
+export interface LayoutRow {
+  page: number
+  // 0-based index into the text's lines
+  line: number
+  text: string
+  words: LayoutWord[]
+}
+
+// Where a table column's heading sits on the page
+export interface LayoutColumn<K extends string> {
+  key: K
+  left: number
+  right: number
+}
+
+// Amount cells are right-aligned under their heading
+const AMOUNT_WORD_PATTERN = /^\(?-?[\d,]*\d\.\d{2}\)?-?$/
+
+// Groups words into rows in reading order. Each page's word lines are
+// counted from the page's first non-blank text line, which is where every
+// extractor puts the page's first row.
+export function layoutRows(words: LayoutWord[], lines: string[]): LayoutRow[] {
+  const pages = linePages(lines)
+  const pageStarts = new Map<number, number>()
+  lines.forEach((line, index) => {
+    if (!pageStarts.has(pages[index]) && line.replace(/\f/g, '').trim()) pageStarts.set(pages[index], index)
+  })
+
+  const rows = new Map<number, LayoutRow>()
+  words.forEach(word => {
+    const start = pageStarts.get(word.page)
+    if (start === undefined) return
+    const line = start + word.line
+    let row = rows.get(line)
+    if (!row) {
+      row = { page: word.page, line, text: '', words: [] }
+      rows.set(line, row)
+    }
+    row.words.push(word)
+  })
+
+  return Array.from(rows.values())
+    .sort((a, b) => a.line - b.line)
+    .map(row => {
+      const sorted = row.words.sort((a, b) => a.left - b.left)
+      return { ...row, words: sorted, text: sorted.map(word => word.text).join(' ') }
+    })
+}
+
+// The columns named in a table heading row, left to right, or null unless
+// every required heading is there. Each heading pattern is tried against
+// single words and against neighbouring pairs ("Dept/ Category").
+export function findHeadingColumns<K extends string>(
+  row: LayoutRow,
+  headings: Record<K, RegExp>,
+  required: K[],
+): LayoutColumn<K>[] | null {
+  const columns: LayoutColumn<K>[] = []
+  const keys = Object.keys(headings) as K[]
+  row.words.forEach((word, index) => {
+    const next = row.words[index + 1]
+    const candidates: [string, number][] = [[word.text, word.left + word.width]]
+    if (next) candidates.push([`${word.text} ${next.text}`, next.left + next.width])
+    for (const [text, right] of candidates) {
+      const key = keys.find(key => headings[key].test(text) && !columns.some(column => column.key === key))
+      if (key) {
+        columns.push({ key, left: word.left, right })
+        break
+      }
+    }
+  })
+
+  if (!required.every(key => columns.some(column => column.key === key))) return null
+  return columns.sort((a, b) => a.left - b.left)
+}
+
+// Places each word of a row under a column and joins the words of each
+// column. Text is left-aligned, so a word belongs to the last column that
+// starts at or before it (allowing for a character of jitter); amounts go to
+// the amount column whose right edge is closest to theirs.
+export function assignColumns<K extends string>(
+  row: LayoutRow,
+  columns: LayoutColumn<K>[],
+  amountColumns: K[],
+): Partial<Record<K, string>> {
+  const values: Partial<Record<K, string>> = {}
+  const charWidth = averageCharWidth(row.words)
+  const amounts = columns.filter(column => amountColumns.includes(column.key))
+
+  row.words.forEach(word => {
+    let column: LayoutColumn<K> | undefined
+    const right = word.left + word.width
+    if (AMOUNT_WORD_PATTERN.test(word.text) && amounts.length > 0) {
+      column = amounts.reduce((best, candidate) =>
+        Math.abs(candidate.right - right) < Math.abs(best.right - right) ? candidate : best)
+    } else {
+      column = columns.filter(candidate => candidate.left <= word.left + charWidth).pop() || columns[0]
+    }
+    values[column.key] = values[column.key] ? `${values[column.key]} ${word.text}` : word.text
+  })
+
+  return values
+}
+
+function averageCharWidth(words: LayoutWord[]): number {
+  const chars = words.reduce((sum, word) => sum + word.text.length, 0)
+  return chars ? words.reduce((sum, word) => sum + word.width, 0) / chars : 0
+}
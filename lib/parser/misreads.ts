@@ -0,0 +1,226 @@
+import { reconcile } from '../reconcile'
+import type { OcrFix, OcrFixField, OcrFixKind, WarrantItem } from '../types'
+import { parseAmount } from './patterns'
+import { itemSource, linePages } from './source'
+import type { ParsedWarrant } from './types'
+
+export const OCR_FIX_LABELS: Record<OcrFixKind, string> = {
+  lookalike: 'letters read as digits',
+  decimal: 'dropped decimal point',
+  thousands: 'split thousands separator',
+}
+
+// Letters and marks OCR reads in place of digits
+const LOOKALIKES: Record<string, string> = { O: '0', o: '0', l: '1', I: '1', '|': '1', S: '5', s: '5', B: '8' }
+const DIGITISH = '[\\dOolI|SsB]'
+
+// A two-decimal amount with some of its digits, or its decimal point, misread
+const AMOUNT_TOKEN = new RegExp(`(?<![\\w.,])${DIGITISH}[\\dOolI|SsB,]*[.,]${DIGITISH}{2}(?![\\w.,])`, 'g')
+const AMOUNT_SHAPE = /^(\d{1,3}(,\d{3})+|\d+)\.\d{2}$/
+
+// A whole number just before the amount at the end of a line, where the
+// amount column's decimal point went missing
+const DROPPED_DECIMAL_PATTERN = /(\s)([1-9]\d{2,}|0\d{2})(\s+\(?[\d,]+\.\d{2}\)?\s*)$/
+
+// "1, 234.56" or "1 ,234.56"
+const SPLIT_THOUSANDS_PATTERN = /(?<![\w,.])(\d{1,3})(?: ,\s*|,\s+)(\d{3}\.\d{2})(?![\w.])/g
+
+// A prefixed account code, e.g. "E 1O-l3-25"
+const ACCOUNT_TOKEN = new RegExp(`\\b([EGR]\\s*)(${DIGITISH}{1,4}(?:-${DIGITISH}{1,4}){1,3})(?![\\w-])`, 'g')
+
+const NUMBER_TOKEN = new RegExp(`^${DIGITISH}+$`)
+
+// Lines whose corrections are tried, at most; each try is a full re-parse
+const MAX_CANDIDATE_LINES = 100
+
+type TokenShape = 'amount' | 'account' | 'number'
+
+interface TokenFix {
+  kind: OcrFixKind
+  shape: TokenShape
+  read: string
+  fixed: string
+}
+
+interface Candidate {
+  index: number
+  text: string
+  fixes: TokenFix[]
+}
+
+interface TotalsCheck {
+  checked: number
+  mismatched: number
+  // Vendor and warrant totals that reconcile
+  matched: number
+  balanced: boolean
+}
+
+function toDigits(token: string): string {
+  return token.replace(/[OolI|SsB]/g, char => LOOKALIKES[char])
+}
+
+// The line with every likely misread in amount, account and number tokens
+// corrected, and the corrections made. Printed totals are left as read,
+// since a fix there couldn't be logged on an item.
+function proposeFixes(line: string): { text: string, fixes: TokenFix[] } {
+  const fixes: TokenFix[] = []
+  if (/\bTotal\b/i.test(line)) return { text: line, fixes }
+
+  let text = line.replace(AMOUNT_TOKEN, token => {
+    if (!/\d/.test(token) && !/^[Oo.,]+$/.test(token)) return token
+    const fixed = toDigits(token).replace(/,(\d{2})$/, '.$1')
+    if (fixed === token || !AMOUNT_SHAPE.test(fixed)) return token
+    fixes.push({ kind: /[^\d.,]/.test(token) ? 'lookalike' : 'decimal', shape: 'amount', read: token, fixed })
+    return fixed
+  })
+
+  text = text.replace(SPLIT_THOUSANDS_PATTERN, (token, thousands: string, rest: string) => {
+    const fixed = `${thousands},${rest}`
+    fixes.push({ kind: 'thousands', shape: 'amount', read: token, fixed })
+    return fixed
+  })
+
+  text = text.replace(ACCOUNT_TOKEN, (token, prefix: string, segments: string) => {
+    const fixed = toDigits(segments)
+    if (fixed === segments || !/\d/.test(segments)) return token
+    fixes.push({ kind: 'lookalike', shape: 'account', read: token, fixed: `${prefix}${fixed}` })
+    return `${prefix}${fixed}`
+  })
+
+  // Codes, check and journal numbers: the run of number-like tokens a line
+  // starts with, and longer ones anywhere that are mostly digits already
+  let leading = true
+  text = text
+    .split(/(\s+)/)
+    .map(part => {
+      if (!part.trim()) return part
+      if (!NUMBER_TOKEN.test(part)) {
+        leading = false
+        return part
+      }
+      const digits = part.replace(/\D/g, '').length
+      const likely = leading ? digits >= 1 && part.length <= 6 : digits >= 2 && part.length >= 4 && part.length <= 6
+      const fixed = toDigits(part)
+      if (!likely || fixed === part) return part
+      fixes.push({ kind: 'lookalike', shape: 'number', read: part, fixed })
+      return fixed
+    })
+    .join('')
+
+  text = text.replace(DROPPED_DECIMAL_PATTERN, (_, space: string, whole: string, rest: string) => {
+    const fixed = `${whole.slice(0, -2)}.${whole.slice(-2)}`
+    fixes.push({ kind: 'decimal', shape: 'amount', read: whole, fixed })
+    return `${space}${fixed}${rest}`
+  })
+
+  return { text, fixes }
+}
+
+// Parses the text, then tries correcting misread numbers line by line and
+// keeps a correction only when it makes more vendor or warrant totals
+// reconcile, or when every total reconciles with it, without breaking a
+// total that reconciled before. Lines whose fixes don't help on their own
+// are tried once more together. Accepted fixes are logged on the items they
+// touch, and items keep the text as read in their source.
+export function correctMisreads(text: string, parse: (text: string) => ParsedWarrant): ParsedWarrant {
+  const parsed = parse(text)
+  if (parsed.controlTotals.length === 0) return parsed
+
+  const lines = text.split('\n')
+  const candidates: Candidate[] = lines
+    .map((line, index) => ({ index, ...proposeFixes(line) }))
+    .filter(candidate => candidate.fixes.length > 0)
+    .slice(0, MAX_CANDIDATE_LINES)
+  if (candidates.length === 0) return parsed
+
+  const fixedLines = [...lines]
+  const accepted: Candidate[] = []
+  let current = { parsed, check: checkTotals(parsed) }
+
+  const tryFixes = (group: Candidate[]) => {
+    const trial = [...fixedLines]
+    group.forEach(candidate => { trial[candidate.index] = candidate.text })
+    const next = parse(trial.join('\n'))
+    const check = checkTotals(next)
+    if (!improves(current.check, check)) return
+    if (!group.every(candidate => fixedItems(next.items, candidate).length > 0)) return
+    group.forEach(candidate => { fixedLines[candidate.index] = candidate.text })
+    accepted.push(...group)
+    current = { parsed: next, check }
+  }
+
+  candidates.forEach(candidate => tryFixes([candidate]))
+  // A fix that only counts once the totals balance gets a second look
+  candidates.filter(candidate => !accepted.includes(candidate)).forEach(candidate => tryFixes([candidate]))
+  const rest = candidates.filter(candidate => !accepted.includes(candidate))
+  if (rest.length > 1) tryFixes(rest)
+  if (accepted.length === 0) return parsed
+
+  const pages = linePages(lines)
+  const logs = new Map<WarrantItem, OcrFix[]>()
+  accepted.forEach(candidate => {
+    fixedItems(current.parsed.items, candidate).forEach(item => {
+      const log = logs.get(item) || []
+      candidate.fixes.forEach(fix => log.push({
+        field: fixField(item, fix),
+        kind: fix.kind,
+        read: fix.read,
+        fixed: fix.fixed,
+        line: candidate.index + 1,
+      }))
+      logs.set(item, log)
+    })
+  })
+
+  return {
+    ...current.parsed,
+    items: current.parsed.items.map(item => {
+      const source = itemSource(lines, pages, item.source.lineStart - 1, item.source.lineEnd - 1)
+      const log = logs.get(item)
+      return log ? { ...item, source, ocrFixes: log.sort((a, b) => a.line - b.line) } : { ...item, source }
+    }),
+  }
+}
+
+function checkTotals(parsed: ParsedWarrant): TotalsCheck {
+  const report = reconcile(parsed.items, parsed.controlTotals)
+  const vendorOrWarrant = (scope: string) => scope === 'vendor' || scope === 'warrant'
+  return {
+    checked: report.checked,
+    mismatched: report.mismatches.length,
+    matched: parsed.controlTotals.filter(total => vendorOrWarrant(total.scope)).length
+      - report.mismatches.filter(mismatch => vendorOrWarrant(mismatch.scope)).length,
+    balanced: report.balanced,
+  }
+}
+
+function improves(before: TotalsCheck, after: TotalsCheck): boolean {
+  if (after.checked < before.checked || after.mismatched > before.mismatched) return false
+  return after.matched > before.matched || (after.balanced && after.matched >= before.matched)
+}
+
+// The items a corrected line belongs to: those read from it, or for a
+// vendor header, the vendor's items that follow it
+function fixedItems(items: WarrantItem[], candidate: Candidate): WarrantItem[] {
+  const line = candidate.index + 1
+  const covering = items.filter(item => item.source.lineStart <= line && line <= item.source.lineEnd)
+  if (covering.length > 0) return covering
+
+  const next = items.findIndex(item => item.source.lineStart > line)
+  if (next === -1) return []
+  const code = items[next].vendorCode
+  if (!candidate.fixes.some(fix => fix.fixed === code)) return []
+  const end = items.findIndex((item, index) => index > next && item.vendorCode !== code)
+  return items.slice(next, end === -1 ? items.length : end)
+}
+
+function fixField(item: WarrantItem, fix: TokenFix): OcrFixField {
+  if (fix.shape === 'account') return 'account'
+  if (fix.shape === 'amount') {
+    const amount = parseAmount(fix.fixed)
+    return amount === item.amount ? 'amount' : amount === item.encumbrance ? 'encumbrance' : 'description'
+  }
+  const fields: OcrFixField[] = ['vendorCode', 'check', 'journal', 'month']
+  return fields.find(field => item[field] === fix.fixed) ?? 'description'
+}
@@ -0,0 +1,38 @@
+import type { PaymentType } from '../types'
+
+// Printed control totals, e.g. "Vendor Total  1,234.56  0.00"
+export const CONTROL_TOTAL_PATTERN = /\b(Invoice|Vendor|Prepaid|Current|EFT|Warrant)\s+Total\b\D*?([\d,]+\.\d{2})/i
+
+// Section headings that introduce prepaid, current and EFT payments
+export const PAYMENT_SECTION_PATTERN = /^[\W_]*(Prepaid|Current|EFT)\b(?![^\n]*Total)[A-Za-z\s\/]*[\W_]*$/i
+
+// Amount followed by the encumbrance column at the end of a line
+export const AMOUNT_ENCUMBRANCE_PATTERN = /([\d,]+\.\d{2})\s+([\d,]+\.\d{2})\s*$/
+
+// Any dollar amount
+export const AMOUNT_PATTERN = /([\d,]+\.\d{2})/g
+
+// Expense, revenue or general ledger account code: E, R or G and two to
+// four hyphenated segments, or three separated by spaces, e.g. "E 10-13-25",
+// "G 1-1804-00", "E10 13 25". lib/accountCodes checks the segments against
+// the municipality's structure.
+export const ACCOUNT_PATTERN = /\b([EGR])\s*(\d{1,5}(?:-\d{1,5}){1,3}|\d{1,5}(?:\s\d{1,5}){2})(?![\d.,-])/
+
+export function parseAmount(value: string): number {
+  return parseFloat(value.replace(/,/g, ''))
+}
+
+// An ACCOUNT_PATTERN match as "E 10-13-25"
+export function accountFromMatch(match: RegExpMatchArray): string {
+  return `${match[1]} ${match[2].split(/[-\s]/).join('-')}`
+}
+
+export function matchPaymentSection(line: string): PaymentType | null {
+  const match = line.match(PAYMENT_SECTION_PATTERN)
+  if (!match) return null
+  return match[1].toLowerCase() as PaymentType
+}
+
+export function hasAmount(line: string): boolean {
+  return /\d\.\d{2}\b/.test(line)
+}
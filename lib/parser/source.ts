@@ -0,0 +1,25 @@
+import type { ItemSource } from '../types'
+
+// Extractors separate pages with a form feed, so the page of each line is
+// one more than the number of form feeds before it
+export function linePages(lines: string[]): number[] {
+  let page = 1
+  return lines.map(line => {
+    page += line.split('\f').length - 1
+    return page
+  })
+}
+
+// Provenance for an item built from lines[start..end] (inclusive, 0-based)
+export function itemSource(lines: string[], pages: number[], start: number, end: number): ItemSource {
+  return {
+    page: pages[start],
+    lineStart: start + 1,
+    lineEnd: end + 1,
+    text: lines
+      .slice(start, end + 1)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n'),
+  }
+}
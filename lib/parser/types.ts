@@ -0,0 +1,20 @@
+import type { ControlTotal, LayoutWord, WarrantInfo, WarrantItem } from '../types'
+
+export interface ParsedWarrant {
+  items: WarrantItem[]
+  warrantInfo: WarrantInfo
+  controlTotals: ControlTotal[]
+}
+
+// One warrant layout, usually one municipal accounting package. score()
+// returns 0 to 1 for how well the text fits the layout; parse() does the work.
+// Layouts with a fixed column grid can also implement parseLayout(), which
+// places values by the words' positions on the page, returning null when it
+// can't find the grid.
+export interface WarrantFormat {
+  id: string
+  name: string
+  score(lines: string[]): number
+  parse(text: string): ParsedWarrant
+  parseLayout?(text: string, words: LayoutWord[]): ParsedWarrant | null
+}
@@ -0,0 +1,18 @@
+// Bump to re-parse cached uploads when parsing changes for a reason the
+// sources below don't show
+const PARSER_RULES_VERSION = 4
+
+// What parse output depends on: every module in lib/parser except this one,
+// and the shared helpers they import, relative to the project root
+export const PARSER_SOURCES = ['lib/parser', 'lib/reconcile.ts', 'lib/warrantDate.ts']
+
+// SHA-256 of PARSER_SOURCES. npm test fails with the new digest whenever one
+// of them changes, so a parser change can't ship while cached parses made
+// with the old rules are still served.
+export const PARSER_SOURCE_DIGEST = 'c40f46ffaff77788984fa14bef6db437ae78d3128940bec0649e4266649569da'
+
+// Identifies the parsing rules in this build. Cached parse results from
+// another version are ignored.
+export function parserVersion(): string {
+  return `${PARSER_RULES_VERSION}-${PARSER_SOURCE_DIGEST.slice(0, 12)}`
+}
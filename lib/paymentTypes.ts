@@ -0,0 +1,9 @@
+import type { PaymentType } from './types'
+
+export const PAYMENT_TYPES: PaymentType[] = ['prepaid', 'current', 'eft']
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  prepaid: 'Prepaid',
+  current: 'Current',
+  eft: 'EFT',
+}
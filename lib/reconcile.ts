@@ -0,0 +1,33 @@
+import type { ControlTotal, ReconciliationReport, WarrantItem } from './types'
+
+// Amounts are parsed from two-decimal strings, so anything under half a cent
+// is floating point noise rather than a real difference
+const TOLERANCE = 0.005
+
+// origins[i] is the parsed position items[i] descends from, so totals still
+// line up after rows are edited, inserted or deleted; defaults to i
+export function reconcile(items: WarrantItem[], controlTotals: ControlTotal[], origins?: number[]): ReconciliationReport {
+  const mismatches = controlTotals
+    .map(total => {
+      const parsed = items
+        .filter((_, i) => {
+          const origin = origins ? origins[i] : i
+          return origin >= total.itemStart && origin < total.itemEnd
+        })
+        .reduce((sum, item) => sum + item.amount, 0)
+      return {
+        scope: total.scope,
+        label: total.label,
+        printed: total.printed,
+        parsed: Math.round(parsed * 100) / 100,
+        difference: Math.round((parsed - total.printed) * 100) / 100,
+      }
+    })
+    .filter(entry => Math.abs(entry.difference) > TOLERANCE)
+
+  return {
+    balanced: controlTotals.length > 0 && mismatches.length === 0,
+    checked: controlTotals.length,
+    mismatches,
+  }
+}
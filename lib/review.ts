@@ -0,0 +1,188 @@
+import { chartKey } from './chartOfAccounts'
+import type { ArchivedWarrant, ReviewFlag, ReviewFlagKind, WarrantInfo, WarrantItem } from './types'
+import { parseWarrantDate } from './warrantDate'
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlagKind, string> = {
+  'duplicate': 'Possible duplicate',
+  'round-amount': 'Round amount',
+  'large-amount': 'Unusually large',
+  'vendor-name-change': 'Vendor name changed',
+}
+
+export interface ReviewOptions {
+  // Same vendor, amount and description on warrants this many days apart
+  duplicateWindowDays: number
+  // Flag payments this many times the vendor's median past payment...
+  largeAmountFactor: number
+  // ...once the vendor has at least this many past payments
+  minimumHistory: number
+  // Flag whole multiples of roundAmountUnit at or above roundAmountMinimum
+  roundAmountUnit: number
+  roundAmountMinimum: number
+}
+
+export const DEFAULT_REVIEW_OPTIONS: ReviewOptions = {
+  duplicateWindowDays: 45,
+  largeAmountFactor: 3,
+  minimumHistory: 3,
+  roundAmountUnit: 100,
+  roundAmountMinimum: 1000,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// REVIEW_DUPLICATE_WINDOW_DAYS, REVIEW_LARGE_AMOUNT_FACTOR and
+// REVIEW_ROUND_AMOUNT_MINIMUM override the defaults
+export function reviewOptions(): ReviewOptions {
+  const number = (name: string, fallback: number) => {
+    const value = parseFloat(process.env[name] || '')
+    return isNaN(value) ? fallback : value
+  }
+  return {
+    ...DEFAULT_REVIEW_OPTIONS,
+    duplicateWindowDays: number('REVIEW_DUPLICATE_WINDOW_DAYS', DEFAULT_REVIEW_OPTIONS.duplicateWindowDays),
+    largeAmountFactor: number('REVIEW_LARGE_AMOUNT_FACTOR', DEFAULT_REVIEW_OPTIONS.largeAmountFactor),
+    roundAmountMinimum: number('REVIEW_ROUND_AMOUNT_MINIMUM', DEFAULT_REVIEW_OPTIONS.roundAmountMinimum),
+  }
+}
+
+// Checks a warrant's items against each other and against earlier archived
+// warrants of the same municipality, since vendor codes are only unique
+// within a town. archived should not include the warrant being reviewed.
+export function reviewWarrant(
+  items: WarrantItem[],
+  warrantInfo: WarrantInfo,
+  archived: ArchivedWarrant[],
+  options: ReviewOptions = DEFAULT_REVIEW_OPTIONS,
+): ReviewFlag[] {
+  const flags: ReviewFlag[] = []
+  const date = parseWarrantDate(warrantInfo.date)
+  const municipality = chartKey(warrantInfo.municipality)
+  const history = archived.filter(warrant => chartKey(warrant.warrantInfo.municipality) === municipality)
+
+  // Duplicates within this warrant
+  const seen = new Map<string, number>()
+  items.forEach((item, index) => {
+    const key = paymentKey(item)
+    const first = seen.get(key)
+    if (first === undefined) {
+      seen.set(key, index)
+    } else {
+      flags.push({ index, kind: 'duplicate', message: `Same vendor, amount and description as row ${first + 1}` })
+    }
+  })
+
+  // Duplicates on archived warrants dated within the window
+  const nearby = date ? history.filter(warrant => {
+    const other = parseWarrantDate(warrant.warrantInfo.date)
+    return other && Math.abs(other.getTime() - date.getTime()) <= options.duplicateWindowDays * DAY_MS
+  }) : []
+  nearby.forEach(warrant => {
+    const keys = new Set(warrant.items.map(paymentKey))
+    items.forEach((item, index) => {
+      if (!keys.has(paymentKey(item))) return
+      flags.push({
+        index,
+        kind: 'duplicate',
+        message: `Same vendor, amount and description on ${warrantLabel(warrant.warrantInfo)}`,
+        warrantId: warrant.id,
+      })
+    })
+  })
+
+  // Round amounts
+  const unitCents = Math.round(options.roundAmountUnit * 100)
+  items.forEach((item, index) => {
+    const cents = Math.round(item.amount * 100)
+    if (item.amount >= options.roundAmountMinimum && unitCents > 0 && cents % unitCents === 0) {
+      flags.push({ index, kind: 'round-amount', message: `Round amount of $${formatAmount(item.amount)}` })
+    }
+  })
+
+  // Unusually large against the vendor's past payments
+  const pastAmounts = new Map<string, number[]>()
+  history.forEach(warrant => warrant.items.forEach(item => {
+    if (!item.vendorCode) return
+    const amounts = pastAmounts.get(item.vendorCode) || []
+    amounts.push(item.amount)
+    pastAmounts.set(item.vendorCode, amounts)
+  }))
+  items.forEach((item, index) => {
+    const amounts = pastAmounts.get(item.vendorCode)
+    if (!amounts || amounts.length < options.minimumHistory) return
+    const typical = median(amounts)
+    if (typical > 0 && item.amount > typical * options.largeAmountFactor) {
+      flags.push({
+        index,
+        kind: 'large-amount',
+        message: `${(item.amount / typical).toFixed(1)}× this vendor's median payment of $${formatAmount(typical)} over ${amounts.length} past payments`,
+      })
+    }
+  })
+
+  // Vendor codes whose name differs from the latest archived warrant or
+  // from earlier rows of this one
+  const knownNames = new Map<string, { name: string, warrant: ArchivedWarrant }>()
+  history
+    .slice()
+    .sort((a, b) => warrantTime(a) - warrantTime(b))
+    .forEach(warrant => warrant.items.forEach(item => {
+      if (item.vendorCode && item.vendorName) knownNames.set(item.vendorCode, { name: item.vendorName, warrant })
+    }))
+  const namesHere = new Map<string, string>()
+  items.forEach((item, index) => {
+    if (!item.vendorCode || !item.vendorName) return
+    const earlier = namesHere.get(item.vendorCode)
+    if (earlier === undefined) {
+      namesHere.set(item.vendorCode, item.vendorName)
+      const known = knownNames.get(item.vendorCode)
+      if (known && normalizeName(known.name) !== normalizeName(item.vendorName)) {
+        flags.push({
+          index,
+          kind: 'vendor-name-change',
+          message: `Vendor ${item.vendorCode} was "${known.name}" on ${warrantLabel(known.warrant.warrantInfo)}`,
+          warrantId: known.warrant.id,
+        })
+      }
+    } else if (normalizeName(earlier) !== normalizeName(item.vendorName)) {
+      flags.push({
+        index,
+        kind: 'vendor-name-change',
+        message: `Vendor ${item.vendorCode} is "${earlier}" on an earlier row of this warrant`,
+      })
+    }
+  })
+
+  return flags.sort((a, b) => a.index - b.index)
+}
+
+function paymentKey(item: WarrantItem): string {
+  return [
+    item.vendorCode || normalizeName(item.vendorName),
+    item.amount.toFixed(2),
+    item.description.toUpperCase().replace(/\s+/g, ' ').trim(),
+  ].join('|')
+}
+
+function normalizeName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim()
+}
+
+function warrantLabel(info: WarrantInfo): string {
+  return `${info.municipality} warrant #${info.warrantNumber}${info.date ? ` (${info.date})` : ''}`
+}
+
+function warrantTime(warrant: ArchivedWarrant): number {
+  const date = parseWarrantDate(warrant.warrantInfo.date)
+  return date ? date.getTime() : new Date(warrant.savedAt).getTime()
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs'
+import { defaultAccountStructure } from '../accountCodes'
+import { chartKey } from '../chartOfAccounts'
+import type { AccountCodeLayout, AccountStructure } from '../types'
+import { dataPath, readJson, writeJson } from './dataDir'
+
+// One account code structure per municipality in <data>/account-structures,
+// named by chartKey like its chart of accounts
+function structureFile(municipality: string): string {
+  return dataPath('account-structures', `${chartKey(municipality)}.json`)
+}
+
+export async function listAccountStructures(): Promise<AccountStructure[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(dataPath('account-structures'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const structures = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<AccountStructure>(dataPath('account-structures', file))),
+  )
+  return structures
+    .filter((structure): structure is AccountStructure => structure !== null)
+    .sort((a, b) => a.municipality.localeCompare(b.municipality))
+}
+
+export async function getAccountStructure(municipality: string): Promise<AccountStructure | null> {
+  return readJson<AccountStructure>(structureFile(municipality))
+}
+
+// The municipality's own layouts, or the default ones
+export async function getAccountLayouts(municipality: string): Promise<AccountCodeLayout[]> {
+  const structure = await getAccountStructure(municipality)
+  return structure ? structure.layouts : defaultAccountStructure()
+}
+
+export async function saveAccountStructure(municipality: string, layouts: AccountCodeLayout[]): Promise<AccountStructure> {
+  const structure: AccountStructure = { municipality, updatedAt: new Date().toISOString(), layouts }
+  await writeJson(structureFile(municipality), structure)
+  return structure
+}
+
+export async function deleteAccountStructure(municipality: string): Promise<boolean> {
+  try {
+    await fs.unlink(structureFile(municipality))
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+    throw error
+  }
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import type {
+  ArchivedWarrant,
+  ArchiveSummary,
+  ItemSearchCriteria,
+  ItemSearchResult,
+} from '../types'
+import { dataPath, readJson, writeJson } from './dataDir'
+import { summarizeWarrant } from './summary'
+
+// One JSON file per warrant in <data>/warrants. Warrant counts are in the
+// hundreds at most, so listing and searching simply read every file.
+function warrantFile(id: string): string {
+  return dataPath('warrants', `${id}.json`)
+}
+
+export async function listWarrants(): Promise<ArchiveSummary[]> {
+  const warrants = await loadAll()
+  return warrants
+    .map(summarizeWarrant)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+export async function getWarrant(id: string): Promise<ArchivedWarrant | null> {
+  if (!/^[\w-]+$/.test(id)) return null
+  return readJson<ArchivedWarrant>(warrantFile(id))
+}
+
+export async function findWarrantByHash(fileHash: string): Promise<ArchivedWarrant | null> {
+  return (await loadAll()).find(entry => entry.fileHash === fileHash) || null
+}
+
+// Saving a PDF that is already archived (same hash) keeps the earlier entry,
+// with its edits, corrections and confirmed header, and returns it. Only a
+// save with the entry's id replaces it.
+export async function saveWarrant(warrant: Omit<ArchivedWarrant, 'id' | 'savedAt'> & { id?: string }): Promise<ArchivedWarrant> {
+  if (!warrant.id) {
+    const existing = await findWarrantByHash(warrant.fileHash)
+    if (existing) return existing
+  }
+
+  const saved: ArchivedWarrant = { ...warrant, id: warrant.id || randomUUID(), savedAt: new Date().toISOString() }
+  await writeJson(warrantFile(saved.id), saved)
+  return saved
+}
+
+export async function deleteWarrant(id: string): Promise<boolean> {
+  if (!/^[\w-]+$/.test(id)) return false
+  try {
+    await fs.unlink(warrantFile(id))
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+    throw error
+  }
+}
+
+export async function searchItems(criteria: ItemSearchCriteria): Promise<ItemSearchResult[]> {
+  const vendor = criteria.vendor?.toLowerCase()
+  const account = criteria.account?.toLowerCase().replace(/\s+/g, '')
+  const department = criteria.department?.toLowerCase()
+
+  const results: ItemSearchResult[] = []
+  for (const warrant of await loadAll()) {
+    warrant.items.forEach((item, index) => {
+      if (vendor && !item.vendorCode.includes(vendor) && !item.vendorName.toLowerCase().includes(vendor)) return
+      if (account && !item.account.toLowerCase().replace(/\s+/g, '').includes(account)) return
+      if (criteria.check && item.check !== criteria.check) return
+      if (department && !item.deptCategory.toLowerCase().includes(department)) return
+      if (criteria.minAmount !== undefined && item.amount < criteria.minAmount) return
+      if (criteria.maxAmount !== undefined && item.amount > criteria.maxAmount) return
+
+      results.push({
+        warrantId: warrant.id,
+        warrantInfo: warrant.warrantInfo,
+        index,
+        item,
+      })
+    })
+  }
+
+  return results
+}
+
+export async function loadAll(): Promise<ArchivedWarrant[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(dataPath('warrants'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const warrants = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<ArchivedWarrant>(dataPath('warrants', file))),
+  )
+  return warrants.filter((warrant): warrant is ArchivedWarrant => warrant !== null)
+}
@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs'
+import { budgetId, compareBudget, warrantFiscalYear } from '../budget'
+import type { Budget, BudgetAccount, BudgetComparison, BudgetSummary, WarrantInfo, WarrantItem } from '../types'
+import { loadAll } from './archive'
+import { dataPath, readJson, writeJson } from './dataDir'
+
+// One budget per municipality and fiscal year in <data>/budgets
+function budgetFile(id: string): string {
+  return dataPath('budgets', `${id}.json`)
+}
+
+export async function listBudgets(): Promise<BudgetSummary[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(dataPath('budgets'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const budgets = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<Budget>(dataPath('budgets', file))),
+  )
+  return budgets
+    .filter((budget): budget is Budget => budget !== null)
+    .map(budget => ({
+      id: budget.id,
+      municipality: budget.municipality,
+      fiscalYear: budget.fiscalYear,
+      fileName: budget.fileName,
+      importedAt: budget.importedAt,
+      accountCount: budget.accounts.length,
+      total: budget.accounts.reduce((sum, account) => sum + account.amount, 0),
+    }))
+    .sort((a, b) => a.municipality.localeCompare(b.municipality) || b.fiscalYear - a.fiscalYear)
+}
+
+export async function getBudget(id: string): Promise<Budget | null> {
+  if (!/^[\w-]+$/.test(id)) return null
+  return readJson<Budget>(budgetFile(id))
+}
+
+export async function findBudget(municipality: string, fiscalYear: number): Promise<Budget | null> {
+  return getBudget(budgetId(municipality, fiscalYear))
+}
+
+// Importing again for the same municipality and year replaces that budget
+export async function saveBudget(
+  municipality: string,
+  fiscalYear: number,
+  fileName: string,
+  accounts: BudgetAccount[],
+): Promise<Budget> {
+  const budget: Budget = {
+    id: budgetId(municipality, fiscalYear),
+    municipality,
+    fiscalYear,
+    fileName,
+    importedAt: new Date().toISOString(),
+    accounts,
+  }
+  await writeJson(budgetFile(budget.id), budget)
+  return budget
+}
+
+export async function deleteBudget(id: string): Promise<boolean> {
+  if (!/^[\w-]+$/.test(id)) return false
+  try {
+    await fs.unlink(budgetFile(id))
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+    throw error
+  }
+}
+
+// The budget comparison for a warrant, or null when its date is unreadable
+// or no budget was imported for its municipality and fiscal year
+export async function compareWithBudget(
+  items: WarrantItem[],
+  warrantInfo: WarrantInfo,
+  archiveId: string | undefined,
+  threshold: number,
+): Promise<BudgetComparison | null> {
+  const fiscalYear = warrantFiscalYear(warrantInfo)
+  if (fiscalYear === null) return null
+  const budget = await findBudget(warrantInfo.municipality, fiscalYear)
+  if (!budget) return null
+
+  const history = (await loadAll()).filter(warrant => warrant.id !== archiveId)
+  return compareBudget(budget, items, warrantInfo, history, threshold)
+}
@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs'
+import { chartKey } from '../chartOfAccounts'
+import type { ChartAccount, ChartOfAccounts, ChartSummary } from '../types'
+import { dataPath, readJson, writeJson } from './dataDir'
+
+// One chart of accounts per municipality in <data>/charts, named by chartKey
+function chartFile(municipality: string): string {
+  return dataPath('charts', `${chartKey(municipality)}.json`)
+}
+
+export async function listCharts(): Promise<ChartSummary[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(dataPath('charts'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const charts = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<ChartOfAccounts>(dataPath('charts', file))),
+  )
+  return charts
+    .filter((chart): chart is ChartOfAccounts => chart !== null)
+    .map(chart => ({
+      municipality: chart.municipality,
+      fileName: chart.fileName,
+      importedAt: chart.importedAt,
+      accountCount: chart.accounts.length,
+    }))
+    .sort((a, b) => a.municipality.localeCompare(b.municipality))
+}
+
+export async function getChart(municipality: string): Promise<ChartOfAccounts | null> {
+  return readJson<ChartOfAccounts>(chartFile(municipality))
+}
+
+// Importing again for the same municipality replaces its chart
+export async function saveChart(municipality: string, fileName: string, accounts: ChartAccount[]): Promise<ChartOfAccounts> {
+  const chart: ChartOfAccounts = { municipality, fileName, importedAt: new Date().toISOString(), accounts }
+  await writeJson(chartFile(municipality), chart)
+  return chart
+}
+
+export async function deleteChart(municipality: string): Promise<boolean> {
+  try {
+    await fs.unlink(chartFile(municipality))
+    return true
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+    throw error
+  }
+}
+
+// The imported charts for these municipalities, keyed by chartKey
+export async function getCharts(municipalities: string[]): Promise<Record<string, ChartOfAccounts>> {
+  const keys = Array.from(new Set(municipalities.map(chartKey)))
+  const charts: Record<string, ChartOfAccounts> = {}
+  await Promise.all(keys.map(async key => {
+    const chart = await getChart(key)
+    if (chart) charts[key] = chart
+  }))
+  return charts
+}
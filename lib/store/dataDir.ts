@@ -0,0 +1,24 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Everything the app persists lives under WARRANT_DATA_DIR (default ./data)
+export function dataPath(...segments: string[]): string {
+  return path.join(process.env.WARRANT_DATA_DIR || path.join(process.cwd(), 'data'), ...segments)
+}
+
+export async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+// Writes to a temporary file first so a crash never leaves half a JSON file
+export async function writeJson(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), 'utf8')
+  await fs.rename(tmp, file)
+}
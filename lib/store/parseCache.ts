@@ -0,0 +1,80 @@
+import type { ExtractionMethod } from '../parsePdf'
+import type { ParseOutcome } from '../parser'
+import { parserVersion } from '../parser/version'
+import type { LayoutWord } from '../types'
+import { dataPath, readJson, writeJson } from './dataDir'
+
+export interface CachedExtraction {
+  text: string
+  extractionMethod: ExtractionMethod
+  ocrProvider?: string
+  pageCount: number | null
+  // Word boxes from the text layer or OCR overlay, for layout parsing
+  words?: LayoutWord[]
+}
+
+// Bump when text or word box extraction changes, so cached extractions are
+// read again from the PDF. 2: text-layer word boxes placed with the pdf.js
+// 1.10 viewport.
+const EXTRACTION_VERSION = 2
+
+// What the slow steps produced for one PDF: its extracted text, which
+// doesn't depend on the parser, and parse outcomes per requested format
+// ('auto' when detected) for a single parser version
+interface CacheEntry {
+  fileHash: string
+  cachedAt: string
+  extraction: CachedExtraction
+  // Absent on entries cached before extractions were versioned
+  extractionVersion?: number
+  parserVersion: string
+  parses: Record<string, ParseOutcome>
+}
+
+// One JSON file per PDF in <data>/cache, named by the SHA-256 of its bytes
+function cacheFile(fileHash: string): string {
+  return dataPath('cache', `${fileHash}.json`)
+}
+
+// Entries extracted by an older version count as a miss, parses included,
+// since those were made from the old text and word boxes
+async function readEntry(fileHash: string): Promise<CacheEntry | null> {
+  if (!/^[0-9a-f]{64}$/.test(fileHash)) return null
+  const entry = await readJson<CacheEntry>(cacheFile(fileHash))
+  return entry && entry.extractionVersion === EXTRACTION_VERSION ? entry : null
+}
+
+export async function getCachedExtraction(fileHash: string): Promise<CachedExtraction | null> {
+  return (await readEntry(fileHash))?.extraction ?? null
+}
+
+// Only outcomes from the running parser version count; anything older is
+// treated as a miss
+export async function getCachedParse(fileHash: string, formatId?: string): Promise<ParseOutcome | null> {
+  const entry = await readEntry(fileHash)
+  if (!entry || entry.parserVersion !== parserVersion()) return null
+  return entry.parses[formatId || 'auto'] ?? null
+}
+
+// Stores the extraction, and the parse outcome when there is one. Outcomes
+// from other parser versions are dropped on the way.
+export async function cacheParseResult(
+  fileHash: string,
+  extraction: CachedExtraction,
+  formatId: string | undefined,
+  outcome: ParseOutcome | null,
+): Promise<void> {
+  const entry = await readEntry(fileHash)
+  const version = parserVersion()
+  const parses = entry && entry.parserVersion === version ? entry.parses : {}
+  if (outcome) parses[formatId || 'auto'] = outcome
+  const updated: CacheEntry = {
+    fileHash,
+    cachedAt: new Date().toISOString(),
+    extraction,
+    extractionVersion: EXTRACTION_VERSION,
+    parserVersion: version,
+    parses,
+  }
+  await writeJson(cacheFile(fileHash), updated)
+}
@@ -0,0 +1,14 @@
+import type { ArchivedWarrant, ArchiveSummary } from '../types'
+
+// The list view of an archived warrant, without its items
+export function summarizeWarrant(warrant: ArchivedWarrant): ArchiveSummary {
+  return {
+    id: warrant.id,
+    fileName: warrant.fileName,
+    fileHash: warrant.fileHash,
+    savedAt: warrant.savedAt,
+    warrantInfo: warrant.warrantInfo,
+    total: warrant.total,
+    itemCount: warrant.items.length,
+  }
+}
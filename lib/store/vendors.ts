@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs'
+import { chartKey } from '../chartOfAccounts'
+import type { VendorMaster, VendorMasterSummary, WarrantItem } from '../types'
+import { learnVendors } from '../vendors'
+import { dataPath, readJson, writeJson } from './dataDir'
+
+// One vendor master per municipality in <data>/vendors, named by chartKey
+// since vendor codes are only unique within one town's accounting system
+function vendorFile(municipality: string): string {
+  return dataPath('vendors', `${chartKey(municipality)}.json`)
+}
+
+export async function listVendorMasters(): Promise<VendorMasterSummary[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(dataPath('vendors'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const masters = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJson<VendorMaster>(dataPath('vendors', file))),
+  )
+  return masters
+    .filter((master): master is VendorMaster => master !== null)
+    .map(master => ({ municipality: master.municipality, updatedAt: master.updatedAt, vendorCount: master.vendors.length }))
+    .sort((a, b) => a.municipality.localeCompare(b.municipality))
+}
+
+export async function getVendorMaster(municipality: string): Promise<VendorMaster | null> {
+  return readJson<VendorMaster>(vendorFile(municipality))
+}
+
+export async function saveVendorMaster(master: VendorMaster): Promise<VendorMaster> {
+  await writeJson(vendorFile(master.municipality), master)
+  return master
+}
+
+// Learns vendor names from a warrant whose header the user confirmed
+export async function learnFromWarrant(municipality: string, warrantId: string, items: WarrantItem[]): Promise<VendorMaster> {
+  const master = await getVendorMaster(municipality)
+  return saveVendorMaster(learnVendors(master, municipality, warrantId, items))
+}
@@ -0,0 +1,459 @@
+export type PaymentType = 'prepaid' | 'current' | 'eft'
+
+// Where in the extracted text an item came from. Lines are 1-based.
+export interface ItemSource {
+  page: number
+  lineStart: number
+  lineEnd: number
+  text: string
+}
+
+// A word, or a run of text from a PDF text layer, with its box on the page.
+// Coordinates are in the extractor's units from the page's top left; line is
+// the row of the page it was placed on, which is also its line of the page
+// in the extracted text (0-based).
+export interface LayoutWord {
+  text: string
+  page: number
+  line: number
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// How a misread number was corrected: letters read for digits (O, l, I, S),
+// a dropped decimal point, or a thousands separator split from its digits
+export type OcrFixKind = 'lookalike' | 'decimal' | 'thousands'
+
+export type OcrFixField = 'vendorCode' | 'journal' | 'check' | 'month' | 'description' | 'account' | 'amount' | 'encumbrance'
+
+// A token the parser corrected on its own, accepted only because the fix
+// made printed totals reconcile. line is 1-based, as in ItemSource.
+export interface OcrFix {
+  field: OcrFixField
+  kind: OcrFixKind
+  read: string
+  fixed: string
+  line: number
+}
+
+export interface WarrantItem {
+  vendorCode: string
+  vendorName: string
+  journal: string
+  check: string
+  month: string
+  description: string
+  account: string
+  deptCategory: string
+  amount: number
+  encumbrance: number
+  paymentType: PaymentType
+  source: ItemSource
+  confidence: number
+  // The name as read, when the vendor master replaced it with its canonical name
+  ocrVendorName?: string
+  // Misread numbers corrected while parsing, for review
+  ocrFixes?: OcrFix[]
+  // The account code's segments by type, when it fits the municipality's
+  // account code structure
+  accountSegments?: AccountSegments
+}
+
+export type WarrantHeaderField = 'municipality' | 'warrantNumber' | 'date' | 'period' | 'fiscalYear'
+
+export interface WarrantInfo {
+  municipality: string
+  warrantNumber: string
+  // MM/DD/YYYY
+  date: string
+  // Accounting period (month, 1-12) the warrant posts to
+  period?: number
+  // Maine's July-June fiscal year; 2025 runs July 2024 through June 2025
+  fiscalYear?: number
+  // Fields the parser had to guess, until the user confirms the header
+  uncertain?: WarrantHeaderField[]
+  confirmed?: boolean
+  // The TREASURER/SELECTMEN certification printed at the end, line by line
+  certification?: string[]
+}
+
+export type ControlTotalScope = 'invoice' | 'vendor' | 'section' | 'warrant'
+
+// A total printed on the warrant, covering items[itemStart..itemEnd)
+export interface ControlTotal {
+  scope: ControlTotalScope
+  label: string
+  printed: number
+  itemStart: number
+  itemEnd: number
+}
+
+export interface ReconciliationEntry {
+  scope: ControlTotalScope
+  label: string
+  printed: number
+  parsed: number
+  difference: number
+}
+
+export interface ReconciliationReport {
+  balanced: boolean
+  checked: number
+  mismatches: ReconciliationEntry[]
+}
+
+export type CorrectionAction = 'edit' | 'add' | 'delete'
+
+// One manual change made in the results grid, logged for the export
+export interface Correction {
+  action: CorrectionAction
+  row: number
+  vendorCode: string
+  vendorName: string
+  field: string
+  originalValue: string
+  newValue: string
+  at: string
+}
+
+// A parsed warrant as kept in the archive, including any grid corrections
+export interface ArchivedWarrant {
+  id: string
+  fileName: string
+  fileHash: string
+  savedAt: string
+  format: string
+  warrantInfo: WarrantInfo
+  items: WarrantItem[]
+  total: number
+  controlTotals: ControlTotal[]
+  corrections: Correction[]
+}
+
+export interface ArchiveSummary {
+  id: string
+  fileName: string
+  fileHash: string
+  savedAt: string
+  warrantInfo: WarrantInfo
+  total: number
+  itemCount: number
+}
+
+export interface ItemSearchCriteria {
+  vendor?: string
+  account?: string
+  check?: string
+  department?: string
+  minAmount?: number
+  maxAmount?: number
+}
+
+export interface ItemSearchResult {
+  warrantId: string
+  warrantInfo: WarrantInfo
+  index: number
+  item: WarrantItem
+}
+
+export type AnalyticsDimension = 'vendor' | 'department' | 'account'
+
+// Which archived warrants an analytics view covers. Months are YYYY-MM and
+// inclusive; warrantIds, when given, restricts the view to those warrants,
+// and municipality to that town's.
+export interface AnalyticsFilter {
+  from?: string
+  to?: string
+  warrantIds?: string[]
+  municipality?: string
+}
+
+// Spend for one vendor, department or account code, per month
+export interface SpendSeries {
+  key: string
+  label: string
+  total: number
+  byMonth: Record<string, number>
+  // Latest month minus the month before it
+  change: number
+}
+
+export interface SpendingAnalytics {
+  dimension: AnalyticsDimension
+  // Every month from the first to the last warrant in range, gaps included
+  months: string[]
+  monthTotals: Record<string, number>
+  total: number
+  warrants: ArchiveSummary[]
+  series: SpendSeries[]
+  movers: SpendSeries[]
+}
+
+export type ReviewFlagKind = 'duplicate' | 'round-amount' | 'large-amount' | 'vendor-name-change'
+
+// A line item worth a second look before the warrant is signed. index is the
+// item's position in the list that was reviewed.
+export interface ReviewFlag {
+  index: number
+  kind: ReviewFlagKind
+  message: string
+  // The archived warrant the flag refers to, for cross-warrant flags
+  warrantId?: string
+}
+
+// One check (or EFT) on the warrant and the line items it pays. rows are the
+// items' positions in the list the register was built from.
+export interface RegisterCheck {
+  check: string
+  paymentType: PaymentType
+  payee: string
+  vendorCodes: string[]
+  lineCount: number
+  total: number
+  rows: number[]
+}
+
+export type CheckIssueKind = 'gap' | 'duplicate' | 'multiple-vendors'
+
+export interface CheckIssue {
+  kind: CheckIssueKind
+  // For gaps, the check that follows the missing numbers
+  check: string
+  paymentType: PaymentType
+  message: string
+}
+
+export interface CheckRegister {
+  checks: RegisterCheck[]
+  issues: CheckIssue[]
+  // Rows with no check number, left out of the register
+  unnumbered: number[]
+  total: number
+}
+
+// One row of a municipality's chart of accounts. Rows can describe a full
+// account code or just its leading segments (e.g. "E 10" for a department).
+export interface ChartAccount {
+  code: string
+  fund: string
+  department: string
+  function: string
+  object: string
+  description: string
+  // From an optional 1099 column; false keeps payments to the account out
+  // of 1099 totals. Unset when the chart doesn't say.
+  reportable1099?: boolean
+}
+
+export type AccountSegmentType = 'fund' | 'department' | 'division' | 'object'
+
+export type AccountSegments = Partial<Record<AccountSegmentType, string>>
+
+// One segment of an account code, at most digits long. Segments without a
+// type, like a ledger suffix, are kept in the code but not summarized.
+export interface AccountSegmentSpec {
+  type?: AccountSegmentType
+  digits: number
+}
+
+// How the codes with one prefix are laid out, e.g. E department-division-object.
+// A prefix can have layouts with different segment counts.
+export interface AccountCodeLayout {
+  prefix: string
+  segments: AccountSegmentSpec[]
+}
+
+// A municipality's own account code layouts, replacing the default
+export interface AccountStructure {
+  municipality: string
+  updatedAt: string
+  layouts: AccountCodeLayout[]
+}
+
+export interface ChartOfAccounts {
+  municipality: string
+  fileName: string
+  importedAt: string
+  accounts: ChartAccount[]
+}
+
+export interface ChartSummary {
+  municipality: string
+  fileName: string
+  importedAt: string
+  accountCount: number
+}
+
+// What an item's account code means according to the chart; exact is false
+// when only its leading segments were found
+export interface ResolvedAccount {
+  fund: string
+  department: string
+  function: string
+  object: string
+  description: string
+  exact: boolean
+  reportable1099?: boolean
+}
+
+export interface BudgetAccount {
+  account: string
+  description: string
+  amount: number
+}
+
+// An approved budget (appropriations by account code) for one municipality
+// and fiscal year
+export interface Budget {
+  id: string
+  municipality: string
+  fiscalYear: number
+  fileName: string
+  importedAt: string
+  accounts: BudgetAccount[]
+}
+
+export interface BudgetSummary {
+  id: string
+  municipality: string
+  fiscalYear: number
+  fileName: string
+  importedAt: string
+  accountCount: number
+  total: number
+}
+
+// 'near' means at or above the warning threshold but not over budget
+export type BudgetStatus = 'ok' | 'near' | 'over'
+
+export interface BudgetLine {
+  account: string
+  description: string
+  budgeted: number
+  spent: number
+  yearToDate: number
+  remaining: number
+  // null for accounts with no budget
+  percentUsed: number | null
+  status: BudgetStatus
+}
+
+export interface BudgetComparison {
+  budgetId: string
+  municipality: string
+  fiscalYear: number
+  // Percent used at which an account is highlighted
+  threshold: number
+  // Archived warrants counted in year-to-date, besides this one
+  priorWarrants: number
+  lines: BudgetLine[]
+  totals: { budgeted: number, spent: number, yearToDate: number, remaining: number }
+}
+
+export type ParseStage = 'extracting' | 'ocr' | 'parsing' | 'reconciling' | 'done'
+
+export interface ParseProgress {
+  stage: ParseStage
+  // Pages read from the text layer, and pages recognized when OCR was needed
+  pagesExtracted: number
+  pagesOcrd: number
+  // Known once the text layer or OCR has been through the whole document
+  pageCount: number | null
+  itemsParsed: number
+  reconciled: boolean
+}
+
+export type ParseJobStatus = 'running' | 'done' | 'failed' | 'canceled'
+
+// A parse running in the background on the server. The result is fetched
+// separately once the job is done.
+export interface ParseJob {
+  id: string
+  fileName: string
+  status: ParseJobStatus
+  progress: ParseProgress
+  error?: string
+  createdAt: string
+  finishedAt?: string
+}
+
+// Why a payment doesn't count toward a vendor's 1099 total
+export type Form1099Exclusion = 'payment-type' | 'account'
+
+export interface Form1099Payment {
+  warrantId: string
+  warrantNumber: string
+  date: string
+  check: string
+  paymentType: PaymentType
+  account: string
+  description: string
+  amount: number
+  excluded?: Form1099Exclusion
+}
+
+// One vendor code's payments from one municipality in a calendar year
+export interface Form1099Vendor {
+  municipality: string
+  vendorCode: string
+  vendorName: string
+  // Reportable payments only
+  total: number
+  // Distinct checks; items without a check number count one each
+  paymentCount: number
+  excludedTotal: number
+  // Reportable total at or above the threshold
+  eligible: boolean
+  warrants: string[]
+  checks: string[]
+  payments: Form1099Payment[]
+}
+
+export interface Form1099Options {
+  year: number
+  threshold: number
+  municipality?: string
+  // Payment types whose payments are never reportable
+  excludedPaymentTypes: PaymentType[]
+}
+
+export interface Form1099Report extends Form1099Options {
+  vendors: Form1099Vendor[]
+  eligibleCount: number
+  total: number
+  excludedTotal: number
+  warrants: ArchiveSummary[]
+  // Warrants without a readable date, which can't be placed in a year
+  undated: ArchiveSummary[]
+}
+
+// One vendor in a municipality's vendor master
+export interface VendorRecord {
+  code: string
+  // Canonical name used on summaries
+  name: string
+  // Set once a user renames the vendor, so learning no longer changes the name
+  renamed: boolean
+  // Every spelling seen under the code on confirmed warrants, with counts
+  variants: Record<string, number>
+  // The archived warrants each spelling was counted from, so saving a
+  // warrant again doesn't count it twice; absent on masters learned before
+  confirmedOn?: Record<string, string[]>
+  // Other codes merged into this vendor
+  mergedCodes: string[]
+  updatedAt: string
+}
+
+export interface VendorMaster {
+  municipality: string
+  updatedAt: string
+  vendors: VendorRecord[]
+}
+
+export interface VendorMasterSummary {
+  municipality: string
+  updatedAt: string
+  vendorCount: number
+}
@@ -0,0 +1,223 @@
+import type { VendorMaster, VendorRecord, WarrantItem } from './types'
+
+// How alike two spellings must be (0-1) to count as the same vendor
+export const VENDOR_MATCH_THRESHOLD = 0.85
+
+// Letters OCR commonly reads as digits; compared as letters so
+// "CENTRAL MA1NE POWER" lines up with "CENTRAL MAINE POWER"
+const OCR_LOOKALIKES: Record<string, string> = { 0: 'O', 1: 'I', 5: 'S', 8: 'B' }
+
+function comparable(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[0158]/g, digit => OCR_LOOKALIKES[digit])
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim()
+}
+
+// 1 minus the edit distance over the longer length, after OCR look-alikes
+// and punctuation are evened out
+export function vendorSimilarity(a: string, b: string): number {
+  const left = comparable(a)
+  const right = comparable(b)
+  if (left === right) return 1
+  const longest = Math.max(left.length, right.length)
+  return longest === 0 ? 0 : 1 - editDistance(left, right) / longest
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const indexes = new WeakMap<VendorMaster, Map<string, VendorRecord>>()
+
+// The vendor for a code, including codes merged into another vendor
+export function findVendor(master: VendorMaster | null | undefined, code: string): VendorRecord | null {
+  if (!master || !code.trim()) return null
+  let index = indexes.get(master)
+  if (!index) {
+    index = new Map()
+    for (const vendor of master.vendors) {
+      index.set(vendor.code, vendor)
+      vendor.mergedCodes.forEach(merged => index!.set(merged, vendor))
+    }
+    indexes.set(master, index)
+  }
+  return index.get(code.trim()) ?? null
+}
+
+// Whether a spelling is the vendor's name or close enough to it, or to a
+// spelling already seen, to be an OCR variant of it
+export function isSpellingOf(vendor: VendorRecord, name: string): boolean {
+  if (vendor.name === name || name in vendor.variants) return true
+  return [vendor.name, ...Object.keys(vendor.variants)].some(known => vendorSimilarity(known, name) >= VENDOR_MATCH_THRESHOLD)
+}
+
+// The closest vendor by name, for items whose code OCR lost
+export function matchVendorName(master: VendorMaster | null | undefined, name: string): VendorRecord | null {
+  if (!master || !name.trim()) return null
+  let best: { vendor: VendorRecord, score: number } | null = null
+  for (const vendor of master.vendors) {
+    const score = Math.max(...[vendor.name, ...Object.keys(vendor.variants)].map(known => vendorSimilarity(known, name)))
+    if (score >= VENDOR_MATCH_THRESHOLD && (!best || score > best.score)) best = { vendor, score }
+  }
+  return best?.vendor ?? null
+}
+
+// Replaces OCR spellings with the vendor master's canonical names, keeping
+// what was read in ocrVendorName. Items without a code get one when their
+// name matches a vendor. A name that isn't a spelling of its code's vendor
+// is left alone for review to flag.
+export function normalizeVendors(items: WarrantItem[], master: VendorMaster | null | undefined): WarrantItem[] {
+  if (!master) return items
+  return items.map(item => {
+    const name = item.vendorName.trim()
+    const vendor = item.vendorCode.trim() ? findVendor(master, item.vendorCode) : matchVendorName(master, name)
+    if (!vendor) return item
+    if (name && !isSpellingOf(vendor, name)) return item
+    if (item.vendorCode.trim() && item.vendorName === vendor.name) return item
+    return {
+      ...item,
+      vendorCode: item.vendorCode.trim() || vendor.code,
+      vendorName: vendor.name,
+      ocrVendorName: item.ocrVendorName ?? item.vendorName,
+    }
+  })
+}
+
+// Adds a confirmed warrant's vendors to the master. Each warrant counts once
+// per spelling of a code, however often it is saved: what it was counted
+// for last time is taken back first. Unless a user renamed the vendor, its
+// name becomes the spelling confirmed most often. Names that aren't a
+// spelling of the code's vendor are skipped. OCR spellings that were
+// replaced are kept, uncounted, so later parses match them exactly.
+export function learnVendors(master: VendorMaster | null, municipality: string, warrantId: string, items: WarrantItem[]): VendorMaster {
+  const now = new Date().toISOString()
+  const vendors = (master?.vendors ?? []).map(vendor => {
+    const confirmedOn = { ...vendor.confirmedOn }
+    const copy: VendorRecord = { ...vendor, variants: { ...vendor.variants }, confirmedOn }
+    Object.entries(confirmedOn).forEach(([name, warrantIds]) => {
+      if (!warrantIds.includes(warrantId)) return
+      confirmedOn[name] = warrantIds.filter(id => id !== warrantId)
+      copy.variants[name] = Math.max((copy.variants[name] || 0) - 1, 0)
+      if (!copy.renamed) copy.name = mostConfirmed(copy)
+    })
+    return copy
+  })
+  const updated: VendorMaster = { municipality: master?.municipality || municipality, updatedAt: now, vendors }
+
+  const seen = new Set<string>()
+  items.forEach(item => {
+    const code = item.vendorCode.trim()
+    const name = item.vendorName.trim()
+    if (!code || !name) return
+
+    let vendor = findVendor(updated, code)
+    if (!vendor) {
+      vendor = { code, name, renamed: false, variants: {}, confirmedOn: {}, mergedCodes: [], updatedAt: now }
+      vendors.push(vendor)
+      indexes.delete(updated)
+    } else if (!isSpellingOf(vendor, name)) {
+      // Likely a misread code, which review flags; renaming is left to the user
+      return
+    }
+    if (!seen.has(`${vendor.code}|${name}`)) {
+      seen.add(`${vendor.code}|${name}`)
+      vendor.variants[name] = (vendor.variants[name] || 0) + 1
+      vendor.confirmedOn = { ...vendor.confirmedOn, [name]: [...vendor.confirmedOn?.[name] ?? [], warrantId] }
+      vendor.updatedAt = now
+    }
+    const read = item.ocrVendorName?.trim()
+    if (read && !(read in vendor.variants)) vendor.variants[read] = 0
+    if (!vendor.renamed) vendor.name = mostConfirmed(vendor)
+  })
+
+  vendors.sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+  return updated
+}
+
+function mostConfirmed(vendor: VendorRecord): string {
+  let best = vendor.name
+  Object.entries(vendor.variants).forEach(([name, count]) => {
+    if (count > (vendor.variants[best] || 0)) best = name
+  })
+  return best
+}
+
+export function renameVendor(master: VendorMaster, code: string, name: string): VendorMaster {
+  const now = new Date().toISOString()
+  return {
+    ...master,
+    updatedAt: now,
+    vendors: master.vendors.map(vendor => vendor.code === code
+      ? { ...vendor, name: name.replace(/\s+/g, ' ').trim(), renamed: true, updatedAt: now }
+      : vendor),
+  }
+}
+
+// Folds other vendors into one: their codes map to it from now on and
+// their spellings count toward its name
+export function mergeVendors(master: VendorMaster, into: string, codes: string[]): VendorMaster {
+  const now = new Date().toISOString()
+  const merging = master.vendors.filter(vendor => vendor.code !== into && codes.includes(vendor.code))
+  return {
+    ...master,
+    updatedAt: now,
+    vendors: master.vendors
+      .filter(vendor => !merging.includes(vendor))
+      .map(vendor => {
+        if (vendor.code !== into) return vendor
+        const merged: VendorRecord = {
+          ...vendor,
+          variants: { ...vendor.variants },
+          confirmedOn: { ...vendor.confirmedOn },
+          mergedCodes: [...vendor.mergedCodes],
+          updatedAt: now,
+        }
+        merging.forEach(other => {
+          Object.entries(other.variants).forEach(([name, count]) => {
+            merged.variants[name] = (merged.variants[name] || 0) + count
+          })
+          Object.entries(other.confirmedOn ?? {}).forEach(([name, warrantIds]) => {
+            merged.confirmedOn![name] = [...merged.confirmedOn![name] ?? [], ...warrantIds]
+          })
+          merged.mergedCodes.push(other.code, ...other.mergedCodes)
+        })
+        if (!merged.renamed) merged.name = mostConfirmed(merged)
+        return merged
+      }),
+  }
+}
+
+// What summaries group an item under: its vendor's canonical name, or for
+// codes the master doesn't know, the spelling used most under the code in
+// these items, so OCR variants don't split a vendor into several rows
+export function vendorNamer(items: WarrantItem[], master?: VendorMaster | null): (item: WarrantItem) => string {
+  const spellings = new Map<string, Record<string, number>>()
+  items.forEach(item => {
+    const code = item.vendorCode.trim()
+    if (!code || !item.vendorName) return
+    const counts = spellings.get(code) || {}
+    counts[item.vendorName] = (counts[item.vendorName] || 0) + 1
+    spellings.set(code, counts)
+  })
+
+  const names = new Map<string, string>()
+  spellings.forEach((counts, code) => {
+    const known = findVendor(master, code)
+    names.set(code, known ? known.name : Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0])
+  })
+  return item => names.get(item.vendorCode.trim()) || item.vendorName
+}
@@ -0,0 +1,12 @@
+// MM/DD/YYYY as printed on the warrant
+export function parseWarrantDate(date: string): Date | null {
+  const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (!match) return null
+  return new Date(parseInt(match[3]), parseInt(match[1]) - 1, parseInt(match[2]))
+}
+
+// Maine towns and school units run July to June; fiscal year 2025 is
+// July 2024 through June 2025
+export function fiscalYearOf(date: Date): number {
+  return date.getMonth() >= 6 ? date.getFullYear() + 1 : date.getFullYear()
+}
@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // These load bundled builds and worker scripts with dynamic requires
+    serverComponentsExternalPackages: ['pdf-parse', 'pdf2pic', 'tesseract.js'],
+  },
+}
 
 module.exports = nextConfig
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  accountStructureWarnings,
+  DEFAULT_ACCOUNT_STRUCTURE,
+  formatAccountStructure,
+  hasAccountSegment,
+  parseAccountCode,
+  parseAccountStructure,
+  splitAccounts,
+} from '../lib/accountCodes'
+import { parseWarrant } from '../lib/parser'
+import { replayText } from './fixtures'
+
+const layouts = parseAccountStructure(DEFAULT_ACCOUNT_STRUCTURE)
+
+describe('account code structures', () => {
+  it('round-trips through its text form', () => {
+    assert.equal(formatAccountStructure(layouts), DEFAULT_ACCOUNT_STRUCTURE)
+  })
+
+  it('explains what is wrong with a structure', () => {
+    assert.throws(() => parseAccountStructure(''), /No account code layouts given/)
+    assert.throws(() => parseAccountStructure('nonsense'), /should be a prefix letter and its segments/)
+    assert.throws(() => parseAccountStructure('E dept:2-3'), /Unknown segment type "dept"/)
+    assert.throws(() => parseAccountStructure('E object:2'), /needs at least two segments/)
+  })
+})
+
+describe('parseAccountCode', () => {
+  it('normalizes the code and types its segments', () => {
+    const parsed = parseAccountCode('e10-13-25', layouts)
+
+    assert.equal(parsed?.code, 'E 10-13-25')
+    assert.deepEqual(parsed?.typed, { department: '10', division: '13', object: '25' })
+  })
+
+  it('drops leading zeros only from segments that would be too long', () => {
+    assert.equal(parseAccountCode('E 10-13-00025', layouts)?.code, 'E 10-13-0025')
+    assert.equal(parseAccountCode('G 1-1804-00', layouts)?.code, 'G 1-1804-00')
+  })
+
+  it('says why a code does not fit', () => {
+    assert.equal(parseAccountCode('E 10-13', layouts)?.problem, 'E codes have 3 segments')
+    assert.equal(parseAccountCode('E 10-13-25000', layouts)?.problem, 'segment 3 (25000) is longer than 4 digits')
+    assert.equal(parseAccountCode('X 1-2-3', layouts)?.problem, 'no layout for X codes')
+    assert.equal(parseAccountCode('ELECTRIC', layouts), null)
+  })
+})
+
+describe('splitAccounts', () => {
+  it('stores the segments of the codes that fit and reports the rest', async () => {
+    const { items } = parseWarrant(await replayText('check-register-scan'))
+    const edited = [...items, { ...items[0], account: 'E 10-13' }]
+    const split = splitAccounts(edited, layouts)
+
+    assert.deepEqual(split.map(item => item.accountSegments), [
+      { department: '10', division: '13', object: '25' },
+      { department: '10', division: '15', object: '30' },
+      { department: '10', division: '20', object: '40' },
+      undefined,
+    ])
+    assert.deepEqual(accountStructureWarnings(split, layouts), [
+      "Account E 10-13 doesn't fit the account code structure: E codes have 3 segments",
+    ])
+  })
+
+  it('drops segments left over from before the code was edited', () => {
+    const [item] = splitAccounts(splitAccounts([{ account: 'E 10-13-25' } as never], layouts).map(item => ({ ...item, account: 'E 10' })), layouts)
+
+    assert.equal(item.accountSegments, undefined)
+  })
+})
+
+describe('hasAccountSegment', () => {
+  it('finds funds only on codes whose layout has one', async () => {
+    const { items } = parseWarrant(await replayText('check-register-scan'))
+
+    assert.equal(hasAccountSegment(items, 'fund', layouts), false)
+    assert.equal(hasAccountSegment(items, 'object', layouts), true)
+    assert.equal(hasAccountSegment([...items, { ...items[0], account: 'G 1-1000-00' }], 'fund', layouts), true)
+  })
+})
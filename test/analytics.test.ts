@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildAnalytics, filterWarrants } from '../lib/analytics'
+import { parseWarrant } from '../lib/parser'
+import type { ArchivedWarrant } from '../lib/types'
+import { replayText } from './fixtures'
+
+async function archived(id: string, municipality: string): Promise<ArchivedWarrant> {
+  const outcome = parseWarrant(await replayText('bradford-scan'))
+  return {
+    id,
+    fileName: `${id}.pdf`,
+    fileHash: id,
+    savedAt: '2024-03-20T00:00:00.000Z',
+    format: outcome.format.id,
+    warrantInfo: { ...outcome.warrantInfo, municipality },
+    items: outcome.items,
+    total: 2284.56,
+    controlTotals: outcome.controlTotals,
+    corrections: [],
+  }
+}
+
+describe('spending analytics', () => {
+  it('keeps the same vendor code in two towns apart', async () => {
+    const warrants = [await archived('a', 'Bradford'), await archived('b', 'Corinth')]
+    const { series } = buildAnalytics(warrants, 'vendor')
+
+    assert.deepEqual(series.filter(entry => entry.key.endsWith(':01234')).map(entry => [entry.key, entry.label, entry.total]), [
+      ['bradford:01234', 'CENTRAL MAINE POWER (Bradford)', 1334.56],
+      ['corinth:01234', 'CENTRAL MAINE POWER (Corinth)', 1334.56],
+    ])
+  })
+
+  it('keeps the same account code in two towns apart', async () => {
+    const warrants = [await archived('a', 'Bradford'), await archived('b', 'Corinth')]
+    const { series } = buildAnalytics(warrants, 'account')
+
+    assert.deepEqual(series.filter(entry => entry.key.endsWith(':E 10-13-25')).map(entry => [entry.key, entry.label, entry.total]), [
+      ['bradford:E 10-13-25', 'E 10-13-25 (Bradford)', 1234.56],
+      ['corinth:E 10-13-25', 'E 10-13-25 (Corinth)', 1234.56],
+    ])
+  })
+
+  it('filters to one municipality', async () => {
+    const warrants = [await archived('a', 'Bradford'), await archived('b', 'Town of Corinth')]
+
+    assert.deepEqual(filterWarrants(warrants, { municipality: 'town of corinth' }).map(warrant => warrant.id), ['b'])
+    assert.equal(buildAnalytics(filterWarrants(warrants, { municipality: 'Bradford' }), 'vendor').series[0].label, 'CENTRAL MAINE POWER')
+  })
+})
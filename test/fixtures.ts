@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs'
+import { mkdtempSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { hashFile } from '../lib/fileHash'
+
+// Sample warrant PDFs live in fixtures/pdf, and the OCR text recorded for
+// them in fixtures/ocr, where the replay provider looks for it
+export const FIXTURES_DIR = path.join(process.cwd(), 'fixtures')
+
+export async function fixturePdf(name: string): Promise<ArrayBuffer> {
+  const data = await fs.readFile(path.join(FIXTURES_DIR, 'pdf', `${name}.pdf`))
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+}
+
+// The text the replay provider serves for a fixture PDF
+export async function replayText(name: string, engine = 'ocrspace'): Promise<string> {
+  const pdf = await fixturePdf(name)
+  return fs.readFile(path.join(FIXTURES_DIR, 'ocr', hashFile(pdf), `${engine}.txt`), 'utf8')
+}
+
+// Points the data store at an empty directory so tests never touch ./data
+export function useTempDataDir(): string {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'warrant-test-'))
+  process.env.WARRANT_DATA_DIR = dir
+  return dir
+}
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildJournal, DEFAULT_JOURNAL_LAYOUT } from '../lib/export/journal'
+import { parseWarrant } from '../lib/parser'
+import { replayText } from './fixtures'
+
+describe('GL journal', () => {
+  it('credits a check and an EFT with the same number separately', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+    const data = outcome.items.map(item => item.paymentType === 'eft' ? { ...item, check: '24568' } : item)
+    const journal = buildJournal({ data, warrantInfo: outcome.warrantInfo, total: 2284.56 }, { ...DEFAULT_JOURNAL_LAYOUT, columns: ['account', 'amount', 'description'] })
+    const credits = journal.trim().split(/\r?\n/).slice(1).filter(line => line.startsWith('G 1-1000-00'))
+
+    assert.deepEqual(credits, [
+      'G 1-1000-00,-1334.56,Check 24567 CENTRAL MAINE POWER',
+      'G 1-1000-00,-50.00,Check 24568 ACME SUPPLY CO',
+      'G 1-1000-00,-900.00,EFT 24568 MAINEPERS',
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseWarrant } from '../lib/parser'
+import type { LayoutWord } from '../lib/types'
+
+// Rows of [left, text] runs, as a text layer or OCR overlay places them;
+// every character is 6 points wide
+type Row = [number, string][]
+
+function layout(rows: Row[]): { text: string, words: LayoutWord[] } {
+  const words: LayoutWord[] = []
+  const lines = rows.map((row, line) => row
+    .flatMap(([left, run]) => run.split(' ').map((text, index, parts) => {
+      const word = { text, page: 1, line, left: left + parts.slice(0, index).join(' ').length * 6 + (index > 0 ? 6 : 0), top: 50 + line * 14, width: text.length * 6, height: 10 }
+      words.push(word)
+      return text
+    }))
+    .join(' '))
+  return { text: lines.join('\n'), words }
+}
+
+const HEADING: Row = [[40, 'Jrnl'], [80, 'Check'], [130, 'Month'], [170, 'Description'], [300, 'Account'], [370, 'Dept/Category'], [470, 'Amount'], [520, 'Encumbrance']]
+
+describe('layout parsing', () => {
+  it('joins a wrapped description and the account under it back onto the row', () => {
+    const { text, words } = layout([
+      [[40, 'Bradford A/P Warrant 12 03/15/2024']],
+      HEADING,
+      [[40, 'Current']],
+      [[40, '01234 CENTRAL MAINE POWER']],
+      [[40, '1234'], [80, '24567'], [130, '03'], [170, 'STREET LIGHTS'], [476, '1,234.56'], [546, '0.00']],
+      [[170, 'MAIN ST'], [300, 'E 10-13-25']],
+      [[370, 'GEN GOVT / ELECTRIC']],
+      [[40, 'Vendor Total'], [476, '1,234.56'], [546, '0.00']],
+      [[40, 'Warrant Total'], [476, '1,234.56'], [546, '0.00']],
+    ])
+    const outcome = parseWarrant(text, undefined, words)
+
+    assert.equal(outcome.format.layout, true)
+    assert.deepEqual(
+      outcome.items.map(item => [item.check, item.description, item.account, item.deptCategory, item.amount, item.encumbrance]),
+      [['24567', 'STREET LIGHTS MAIN ST', 'E 10-13-25', 'GEN GOVT / ELECTRIC', 1234.56, 0]],
+    )
+    assert.deepEqual([outcome.items[0].source.lineStart, outcome.items[0].source.lineEnd], [5, 7])
+  })
+
+  it('keeps the line reading when the word boxes have no heading to go by', () => {
+    const { text, words } = layout([
+      [[40, 'Bradford A/P Warrant 12 03/15/2024']],
+      [[40, 'Current']],
+      [[40, '01234 CENTRAL MAINE POWER']],
+      [[40, '1234 24567 03 ELECTRIC 1,234.56 0.00']],
+      [[40, 'Vendor Total 1,234.56 0.00']],
+      [[40, 'Warrant Total 1,234.56 0.00']],
+    ])
+    const outcome = parseWarrant(text, undefined, words)
+
+    assert.equal(outcome.format.layout, false)
+    assert.deepEqual(outcome.items.map(item => [item.check, item.amount]), [['24567', 1234.56]])
+  })
+})
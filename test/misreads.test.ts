@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseWarrant } from '../lib/parser'
+import { reconcile } from '../lib/reconcile'
+import { replayText } from './fixtures'
+
+describe('misread correction', () => {
+  it('fixes the misreads that make the totals reconcile and logs each one', async () => {
+    const [misread, clean] = await Promise.all([replayText('bradford-misread-scan'), replayText('bradford-scan')])
+    const outcome = parseWarrant(misread)
+    const expected = parseWarrant(clean)
+
+    assert.deepEqual(
+      outcome.items.map(item => [item.vendorCode, item.journal, item.check, item.account, item.amount, item.encumbrance]),
+      expected.items.map(item => [item.vendorCode, item.journal, item.check, item.account, item.amount, item.encumbrance]),
+    )
+    assert.equal(reconcile(outcome.items, outcome.controlTotals).balanced, true)
+    assert.deepEqual(outcome.items.map(item => item.ocrFixes?.map(fix => [fix.field, fix.kind, fix.read, fix.fixed, fix.line])), [
+      [['amount', 'lookalike', 'l,234.S6', '1,234.56', 6], ['encumbrance', 'lookalike', 'O.OO', '0.00', 6]],
+      [['account', 'lookalike', 'E 1O-13-26', 'E 10-13-26', 10]],
+      [['vendorCode', 'lookalike', 'O2345', '02345', 13], ['journal', 'lookalike', 'l240', '1240', 14], ['check', 'lookalike', '2456B', '24568', 14]],
+      [['amount', 'decimal', '90000', '900.00', 20]],
+    ])
+  })
+
+  it('keeps the text as read in the source', async () => {
+    const outcome = parseWarrant(await replayText('bradford-misread-scan'))
+
+    assert.equal(outcome.items[0].source.text.split('\n')[0], '1234 24567 03 ELECTRIC l,234.S6 O.OO')
+  })
+
+  it('leaves a misread alone when fixing it still leaves the totals off', async () => {
+    // Printed totals that the corrected amount wouldn't match either
+    const text = (await replayText('bradford-scan'))
+      .replace('OFFICE PAPER 50.00', 'OFFICE PAPER 5O.OO')
+      .replace('Invoice Total 50.00', 'Invoice Total 60.00')
+      .replace('Vendor Total 50.00', 'Vendor Total 60.00')
+      .replace('Current Total 1,384.56', 'Current Total 1,394.56')
+      .replace('Warrant Total 2,284.56', 'Warrant Total 2,294.56')
+    const outcome = parseWarrant(text)
+
+    assert.ok(outcome.items.every(item => !item.ocrFixes))
+    assert.ok(outcome.items.every(item => item.amount !== 50))
+  })
+})
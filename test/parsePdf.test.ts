@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { promises as fs } from 'fs'
+import { hashFile } from '../lib/fileHash'
+import { parsePdf } from '../lib/parsePdf'
+import { getWarrant, saveWarrant } from '../lib/store/archive'
+import { dataPath } from '../lib/store/dataDir'
+import { getCachedExtraction } from '../lib/store/parseCache'
+import { fixturePdf, useTempDataDir } from './fixtures'
+
+describe('parsePdf', () => {
+  before(() => {
+    useTempDataDir()
+    process.env.OCR_PROVIDER = 'replay'
+    delete process.env.OCR_REPLAY_ENGINE
+  })
+
+  it('falls back to OCR for a scan and parses the recorded text', async () => {
+    const result = await parsePdf(await fixturePdf('bradford-scan'), 'bradford-scan.pdf', { archive: false })
+
+    assert.equal(result.success, true)
+    if (!result.success) return
+    assert.equal(result.extractionMethod, 'ocr')
+    assert.equal(result.ocrProvider, 'replay:ocrspace')
+    assert.equal(result.format.id, 'bradford')
+    assert.equal(result.data.length, 4)
+    assert.equal(result.total, 2284.56)
+    assert.equal(result.reconciliation.balanced, true)
+    assert.deepEqual(result.accountWarnings, [])
+    assert.equal(result.cached, false)
+  })
+
+  it('serves a repeat upload from the parse cache', async () => {
+    const pdf = await fixturePdf('bradford-misread-scan')
+    await parsePdf(pdf, 'bradford-misread-scan.pdf', { archive: false })
+    const result = await parsePdf(pdf, 'bradford-misread-scan.pdf', { archive: false })
+
+    assert.equal(result.success, true)
+    if (!result.success) return
+    assert.equal(result.cached, true)
+    assert.equal(result.reconciliation.balanced, true)
+    assert.equal(result.data[3].ocrFixes?.[0].fixed, '900.00')
+  })
+
+  it('extracts again when the cached extraction is from an older version', async () => {
+    const pdf = await fixturePdf('bradford-scan')
+    await parsePdf(pdf, 'bradford-scan.pdf', { archive: false })
+    const file = dataPath('cache', `${hashFile(pdf)}.json`)
+    const { extractionVersion, ...older } = JSON.parse(await fs.readFile(file, 'utf8'))
+    await fs.writeFile(file, JSON.stringify(older))
+
+    assert.ok(extractionVersion)
+    assert.equal(await getCachedExtraction(hashFile(pdf)), null)
+    const result = await parsePdf(pdf, 'bradford-scan.pdf', { archive: false })
+    assert.equal(result.success && result.cached, false)
+  })
+
+  it('reads the text layer with word boxes and places the columns by them', async () => {
+    const result = await parsePdf(await fixturePdf('bradford-text-layer'), 'bradford-text-layer.pdf', { archive: false, force: true })
+
+    assert.equal(result.success, true)
+    if (!result.success) return
+    assert.equal(result.extractionMethod, 'text-layer')
+    assert.equal(result.format.layout, true)
+    assert.deepEqual(result.data.map(item => [item.check, item.description, item.account, item.amount]), [
+      ['24567', 'ELECTRIC', 'E 10-13-25', 1234.56],
+      ['24567', 'STREET LIGHTS', 'E 10-13-26', 100],
+      ['24568', 'OFFICE PAPER', '', 50],
+      ['00001', 'RETIREMENT', '', 900],
+    ])
+    assert.equal(result.reconciliation.balanced, true)
+  })
+
+  it('gives every text-layer word a box on the page', async () => {
+    const pdf = await fixturePdf('bradford-text-layer')
+    await parsePdf(pdf, 'bradford-text-layer.pdf', { archive: false })
+    const extraction = await getCachedExtraction(hashFile(pdf))
+    const words = extraction?.words || []
+
+    assert.ok(words.length > 0)
+    words.forEach(word => {
+      assert.ok([word.left, word.top, word.width, word.height].every(Number.isFinite), `${word.text} has no box`)
+    })
+    // Rows run down the page 14 points apart
+    const top = (text: string) => words.find(word => word.text === text)!.top
+    assert.ok(Math.abs(top('Jrnl') - top('Bradford') - 28) < 1)
+  })
+
+  it('keeps an archived entry and its edits when the PDF is parsed again', async () => {
+    const pdf = await fixturePdf('bradford-certified-scan')
+    const first = await parsePdf(pdf, 'bradford-certified-scan.pdf')
+    assert.equal(first.success, true)
+    if (!first.success) return
+    assert.equal(first.alreadyArchived, false)
+    const archived = (await getWarrant(first.archiveId!))!
+    await saveWarrant({ ...archived, items: archived.items.slice(1), warrantInfo: { ...archived.warrantInfo, uncertain: [] } })
+
+    const again = await parsePdf(pdf, 'bradford-certified-scan.pdf', { force: true })
+    assert.equal(again.success, true)
+    if (!again.success) return
+    assert.equal(again.archiveId, first.archiveId)
+    assert.equal(again.alreadyArchived, true)
+    assert.equal((await getWarrant(first.archiveId!))!.items.length, 3)
+
+    const replaced = await parsePdf(pdf, 'bradford-certified-scan.pdf', { replaceArchived: true })
+    assert.equal(replaced.success && replaced.archiveId, first.archiveId)
+    assert.equal(replaced.success && replaced.alreadyArchived, false)
+    assert.equal((await getWarrant(first.archiveId!))!.items.length, 4)
+  })
+
+  it('names the archived copy of a PDF without archiving it again', async () => {
+    const pdf = await fixturePdf('check-register-scan')
+    const archived = await parsePdf(pdf, 'check-register-scan.pdf')
+    const unarchived = await parsePdf(pdf, 'check-register-scan.pdf', { archive: false })
+
+    assert.equal(unarchived.success && unarchived.archiveId, archived.success && archived.archiveId)
+    assert.equal(unarchived.success && unarchived.alreadyArchived, false)
+  })
+
+  it('fails cleanly when nothing was recorded for the document', async () => {
+    const blank = new TextEncoder().encode('%PDF-1.4\n%%EOF\n').buffer
+    const result = await parsePdf(blank, 'blank.pdf', { archive: false })
+
+    assert.equal(result.success, false)
+    if (result.success) return
+    assert.equal(result.error, 'Could not extract text from PDF. Please try again or contact support.')
+  })
+})
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { detectFormats, parseWarrant } from '../lib/parser'
+import { reconcile } from '../lib/reconcile'
+import type { WarrantItem } from '../lib/types'
+import { replayText } from './fixtures'
+
+// The fields a regression would change, one row per item
+function rows(items: WarrantItem[]) {
+  return items.map(item => [item.vendorCode, item.vendorName, item.paymentType, item.check, item.account, item.amount])
+}
+
+const BRADFORD_ROWS = [
+  ['01234', 'CENTRAL MAINE POWER', 'current', '24567', 'E 10-13-25', 1234.56],
+  ['01234', 'CENTRAL MAINE POWER', 'current', '24567', 'E 10-13-26', 100],
+  ['02345', 'ACME SUPPLY CO', 'current', '24568', '', 50],
+  ['03456', 'MAINEPERS', 'eft', '00001', '', 900],
+]
+
+describe('Bradford warrants', () => {
+  it('parses the sample warrant and reconciles it', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+
+    assert.equal(outcome.format.id, 'bradford')
+    assert.equal(outcome.format.layout, false)
+    assert.deepEqual(rows(outcome.items), BRADFORD_ROWS)
+    assert.equal(outcome.items[0].deptCategory, 'GENERAL GOVT - ADMIN / ELECTRICITY')
+    assert.deepEqual(
+      { municipality: outcome.warrantInfo.municipality, warrantNumber: outcome.warrantInfo.warrantNumber, date: outcome.warrantInfo.date },
+      { municipality: 'Bradford', warrantNumber: '12', date: '03/15/2024' },
+    )
+    assert.deepEqual(outcome.warrantInfo.uncertain, [])
+
+    const report = reconcile(outcome.items, outcome.controlTotals)
+    assert.equal(report.balanced, true)
+    assert.equal(report.checked, outcome.controlTotals.length)
+  })
+
+  it('records the source lines of each item', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+    const { source } = outcome.items[1]
+
+    assert.deepEqual([source.page, source.lineStart, source.lineEnd], [1, 9, 11])
+    assert.equal(source.text, '1234 24567 03 STREET LIGHTS\nE 10-13-26\n100.00 0.00')
+  })
+
+  it('reads the certification page without taking items from it', async () => {
+    const outcome = parseWarrant(await replayText('bradford-certified-scan'))
+
+    assert.deepEqual(rows(outcome.items), BRADFORD_ROWS)
+    assert.equal(outcome.warrantInfo.certification?.length, 4)
+    assert.equal(reconcile(outcome.items, outcome.controlTotals).balanced, true)
+  })
+})
+
+describe('check registers', () => {
+  it('parses one payment per line', async () => {
+    const text = await replayText('check-register-scan')
+    const outcome = parseWarrant(text)
+
+    assert.equal(detectFormats(text)[0].id, 'check-register')
+    assert.equal(outcome.format.id, 'check-register')
+    assert.equal(outcome.warrantInfo.municipality, 'Town of Bradford')
+    assert.deepEqual(rows(outcome.items), [
+      ['01234', 'CENTRAL MAINE POWER', 'current', '24601', 'E 10-13-25', 1234.56],
+      ['02345', 'ACME SUPPLY CO', 'current', '24602', 'E 10-15-30', 50],
+      ['03456', 'MAINEPERS', 'eft', '', 'E 10-20-40', 900],
+    ])
+    assert.equal(reconcile(outcome.items, outcome.controlTotals).balanced, true)
+  })
+})
+
+describe('generic format', () => {
+  it('takes every amount line under a vendor header when forced', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'), 'generic')
+
+    assert.equal(outcome.format.id, 'generic')
+    assert.equal(outcome.format.forced, true)
+    assert.deepEqual(outcome.items.map(item => [item.vendorCode, item.amount]), [
+      ['01234', 1234.56],
+      ['01234', 100],
+      ['02345', 50],
+      ['03456', 900],
+    ])
+  })
+
+  it('rejects unknown formats', () => {
+    assert.throws(() => parseWarrant('', 'nonexistent'), /Unknown warrant format "nonexistent"/)
+  })
+})
+
+describe('warrant headers', () => {
+  it('takes a line with only the town name as the municipality', async () => {
+    const text = (await replayText('bradford-scan')).replace('Bradford A/P Warrant 12 03/15/2024', 'BRADFORD\nWarrant 12 03/15/2024')
+    const { warrantInfo } = parseWarrant(text)
+
+    assert.equal(warrantInfo.municipality, 'Bradford')
+    assert.deepEqual(warrantInfo.uncertain, ['municipality'])
+  })
+
+  it('skips heading words ahead of the town name', async () => {
+    const text = (await replayText('bradford-scan')).replace('Bradford A/P Warrant 12 03/15/2024', 'Warrant 12 03/15/2024\nBRADFORD')
+    const { warrantInfo } = parseWarrant(text)
+
+    assert.equal(warrantInfo.municipality, 'Bradford')
+    assert.equal(warrantInfo.warrantNumber, '12')
+  })
+})
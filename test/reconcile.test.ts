@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseWarrant } from '../lib/parser'
+import { reconcile } from '../lib/reconcile'
+import { replayText } from './fixtures'
+
+describe('reconcile', () => {
+  it('reports the totals an edited amount no longer matches', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+    const items = outcome.items.map((item, index) => index === 2 ? { ...item, amount: 55 } : item)
+    const report = reconcile(items, outcome.controlTotals)
+
+    assert.equal(report.balanced, false)
+    assert.deepEqual(report.mismatches.map(mismatch => mismatch.label).sort(), [
+      'Current Total',
+      'Invoice Total - ACME SUPPLY CO (02345)',
+      'Vendor Total - ACME SUPPLY CO (02345)',
+      'Warrant Total',
+    ])
+    assert.ok(report.mismatches.every(mismatch => Math.abs(mismatch.difference) === 5))
+  })
+
+  it('follows edited rows back to the item they were parsed as', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+    // The ACME line split in two and the EFT line deleted
+    const items = [...outcome.items.slice(0, 2), { ...outcome.items[2], amount: 20 }, { ...outcome.items[2], amount: 30 }]
+    const report = reconcile(items, outcome.controlTotals, [0, 1, 2, 2])
+
+    assert.deepEqual(report.mismatches.map(mismatch => [mismatch.label, mismatch.difference]).sort(), [
+      ['EFT Total', -900],
+      ['Vendor Total - MAINEPERS (03456)', -900],
+      ['Warrant Total', -900],
+    ])
+  })
+
+  it('has nothing to check without control totals', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+    const report = reconcile(outcome.items, [])
+
+    assert.equal(report.checked, 0)
+    assert.deepEqual(report.mismatches, [])
+  })
+})
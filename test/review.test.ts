@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseWarrant } from '../lib/parser'
+import { reviewWarrant } from '../lib/review'
+import type { ArchivedWarrant } from '../lib/types'
+import { replayText } from './fixtures'
+
+describe('payment review', () => {
+  it('only compares a warrant with the same municipality\'s archive', async () => {
+    const outcome = parseWarrant(await replayText('bradford-scan'))
+    const earlier = (municipality: string): ArchivedWarrant => ({
+      id: municipality,
+      fileName: `${municipality}.pdf`,
+      fileHash: municipality,
+      savedAt: '2024-03-01T00:00:00.000Z',
+      format: outcome.format.id,
+      warrantInfo: { ...outcome.warrantInfo, municipality, date: '03/01/2024' },
+      items: outcome.items,
+      total: 2284.56,
+      controlTotals: outcome.controlTotals,
+      corrections: [],
+    })
+
+    const acrossTowns = reviewWarrant(outcome.items, outcome.warrantInfo, [earlier('Corinth')])
+    assert.deepEqual(acrossTowns.filter(flag => flag.kind === 'duplicate'), [])
+
+    const sameTown = reviewWarrant(outcome.items, outcome.warrantInfo, [earlier('BRADFORD')])
+    assert.deepEqual(sameTown.filter(flag => flag.kind === 'duplicate').map(flag => [flag.index, flag.warrantId]), [
+      [0, 'BRADFORD'],
+      [1, 'BRADFORD'],
+      [2, 'BRADFORD'],
+      [3, 'BRADFORD'],
+    ])
+  })
+})
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseWarrant } from '../lib/parser'
+import { findVendor, learnVendors } from '../lib/vendors'
+import { replayText } from './fixtures'
+
+describe('vendor learning', () => {
+  it('counts a warrant once however often it is saved', async () => {
+    const { items, warrantInfo } = parseWarrant(await replayText('bradford-scan'))
+    const first = learnVendors(null, warrantInfo.municipality, 'warrant-1', items)
+    const resaved = learnVendors(first, warrantInfo.municipality, 'warrant-1', items)
+
+    assert.deepEqual(findVendor(resaved, '01234')?.variants, { 'CENTRAL MAINE POWER': 1 })
+
+    const another = learnVendors(resaved, warrantInfo.municipality, 'warrant-2', items)
+    assert.deepEqual(findVendor(another, '01234')?.variants, { 'CENTRAL MAINE POWER': 2 })
+  })
+
+  it('takes back a spelling a warrant was corrected away from', async () => {
+    const { items, warrantInfo } = parseWarrant(await replayText('bradford-scan'))
+    const misread = items.map(item => item.vendorCode === '01234' ? { ...item, vendorName: 'CENTRAL MA1NE POWER' } : item)
+    const first = learnVendors(null, warrantInfo.municipality, 'warrant-1', misread)
+    const corrected = learnVendors(first, warrantInfo.municipality, 'warrant-1', items)
+
+    const vendor = findVendor(corrected, '01234')
+    assert.deepEqual(vendor?.variants, { 'CENTRAL MA1NE POWER': 0, 'CENTRAL MAINE POWER': 1 })
+    assert.equal(vendor?.name, 'CENTRAL MAINE POWER')
+  })
+})
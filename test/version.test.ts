@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { describe, it } from 'node:test'
+import path from 'path'
+import { PARSER_SOURCE_DIGEST, PARSER_SOURCES } from '../lib/parser/version'
+
+// The files PARSER_SOURCES names, directories expanded, in a stable order
+async function sourceFiles(): Promise<string[]> {
+  const files: string[] = []
+  for (const source of PARSER_SOURCES) {
+    const stat = await fs.stat(source)
+    if (!stat.isDirectory()) {
+      files.push(source)
+      continue
+    }
+    const names = await fs.readdir(source)
+    files.push(...names
+      .filter(name => name.endsWith('.ts') && name !== 'version.ts')
+      .map(name => path.posix.join(source, name)))
+  }
+  return files.sort()
+}
+
+describe('parser version', () => {
+  it('covers the current parser sources', async () => {
+    const hash = createHash('sha256')
+    for (const file of await sourceFiles()) {
+      hash.update(`${file}\n${(await fs.readFile(file, 'utf8')).replace(/\r\n/g, '\n')}\n`)
+    }
+    const digest = hash.digest('hex')
+
+    assert.equal(PARSER_SOURCE_DIGEST, digest,
+      `The parser sources changed: set PARSER_SOURCE_DIGEST in lib/parser/version.ts to '${digest}'`)
+  })
+})